@@ -0,0 +1,53 @@
+/**
+ * The computed bridge as a plain table: one row per drawn bar, with the
+ * start, end and running total the chart was built from. Exported as CSV
+ * and shown as the visual's table view.
+ */
+
+// --- Interfaces ---
+
+export interface BridgeColumn {
+    title: string;
+    /** Numeric columns hold raw numbers, formatted only for display */
+    numeric: boolean;
+    /** Format string for display; undefined keeps the visual's primary format */
+    format?: string;
+}
+
+export type BridgeCell = string | number | null;
+
+export interface BridgeTable {
+    columns: BridgeColumn[];
+    rows: BridgeCell[][];
+}
+
+// --- CSV ---
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+/**
+ * One CSV field: numbers as-is, blanks empty, text quoted when it holds a
+ * separator, quote or line break. Text that a spreadsheet would read as a
+ * formula is prefixed with an apostrophe.
+ */
+export function toCsvField(cell: BridgeCell): string {
+    if (cell === null || cell === undefined) {
+        return "";
+    }
+    if (typeof cell === "number") {
+        return isFinite(cell) ? String(cell) : "";
+    }
+
+    const text = FORMULA_PREFIXES.some(prefix => cell.startsWith(prefix)) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row and CRLF line endings
+ */
+export function toCsv(table: BridgeTable): string {
+    const lines = [table.columns.map(column => column.title), ...table.rows]
+        .map(row => row.map(toCsvField).join(","));
+    return lines.join("\r\n") + "\r\n";
+}
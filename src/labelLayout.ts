@@ -0,0 +1,174 @@
+import { textMeasurementService } from "powerbi-visuals-utils-formattingutils";
+
+export const LABEL_FONT_FAMILY = "Segoe UI, sans-serif";
+
+const ELLIPSIS = "…";
+
+// --- Interfaces ---
+
+export interface LabelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * One place a label may go, as the center of its box
+ */
+export interface LabelSlot {
+    centerX: number;
+    centerY: number;
+    /** Text color for this slot (inside slots contrast with the bar fill) */
+    color: string;
+}
+
+export interface LabelCandidate {
+    text: string;
+    fontSize: number;
+    /** Higher priority labels are placed first and win collisions */
+    priority: number;
+    /** Slots in order of preference */
+    slots: LabelSlot[];
+}
+
+export interface PlacedLabel {
+    candidate: LabelCandidate;
+    /** Chosen slot, or null when every slot collides */
+    slot: LabelSlot | null;
+}
+
+// --- Measurement ---
+
+export function measureTextWidth(text: string, fontSize: number): number {
+    return textMeasurementService.measureSvgTextWidth({
+        text,
+        fontFamily: LABEL_FONT_FAMILY,
+        fontSize: `${fontSize}px`
+    });
+}
+
+/**
+ * Shortens the text with an ellipsis so it fits in maxWidth
+ */
+export function truncateText(text: string, fontSize: number, maxWidth: number): string {
+    if (measureTextWidth(text, fontSize) <= maxWidth) {
+        return text;
+    }
+    return textMeasurementService.getTailoredTextOrDefault({
+        text,
+        fontFamily: LABEL_FONT_FAMILY,
+        fontSize: `${fontSize}px`
+    }, maxWidth);
+}
+
+/**
+ * Greedy word wrap onto at most maxLines lines; the last line is truncated
+ * with an ellipsis when words are left over.
+ */
+export function wrapText(text: string, fontSize: number, maxWidth: number, maxLines: number): string[] {
+    const words = text.split(/\s+/).filter(word => word.length > 0);
+    const lines: string[] = [];
+    let current = "";
+
+    for (let i = 0; i < words.length; i++) {
+        const candidate = current ? `${current} ${words[i]}` : words[i];
+        if (!current || measureTextWidth(candidate, fontSize) <= maxWidth) {
+            current = candidate;
+            continue;
+        }
+
+        // Out of lines: the rest of the words share the last one
+        if (lines.length >= maxLines - 1) {
+            current = [current, ...words.slice(i)].join(" ");
+            break;
+        }
+        lines.push(current);
+        current = words[i];
+    }
+    if (current) {
+        lines.push(current);
+    }
+
+    return lines.map(line => truncateText(line, fontSize, maxWidth));
+}
+
+export function isTruncated(text: string): boolean {
+    return text.endsWith(ELLIPSIS) || text.endsWith("...");
+}
+
+// --- Collision ---
+
+export function rectsOverlap(a: LabelRect, b: LabelRect, padding: number = 0): boolean {
+    return a.x < b.x + b.width + padding
+        && b.x < a.x + a.width + padding
+        && a.y < b.y + b.height + padding
+        && b.y < a.y + a.height + padding;
+}
+
+function getSlotRect(slot: LabelSlot, width: number, height: number): LabelRect {
+    return {
+        x: slot.centerX - width / 2,
+        y: slot.centerY - height / 2,
+        width,
+        height
+    };
+}
+
+function isInside(rect: LabelRect, bounds: LabelRect): boolean {
+    return rect.x >= bounds.x
+        && rect.y >= bounds.y
+        && rect.x + rect.width <= bounds.x + bounds.width
+        && rect.y + rect.height <= bounds.y + bounds.height;
+}
+
+/**
+ * Greedy label placement: highest priority first, each label takes its first
+ * slot that stays within bounds and clears every label already placed and
+ * every obstacle. Labels with no free slot are hidden.
+ */
+export function placeLabels(candidates: LabelCandidate[], bounds: LabelRect, obstacles: LabelRect[] = []): PlacedLabel[] {
+    const taken: LabelRect[] = obstacles.slice();
+    const placements = new Map<LabelCandidate, LabelSlot | null>();
+
+    const ordered = candidates.slice().sort((a, b) => b.priority - a.priority);
+    for (const candidate of ordered) {
+        const width = measureTextWidth(candidate.text, candidate.fontSize);
+        const height = candidate.fontSize;
+        let chosen: LabelSlot | null = null;
+
+        for (const slot of candidate.slots) {
+            const rect = getSlotRect(slot, width, height);
+            if (isInside(rect, bounds) && !taken.some(other => rectsOverlap(rect, other, 1))) {
+                chosen = slot;
+                taken.push(rect);
+                break;
+            }
+        }
+        placements.set(candidate, chosen);
+    }
+
+    return candidates.map(candidate => ({ candidate, slot: placements.get(candidate) }));
+}
+
+// --- Color ---
+
+/**
+ * Dark or white text, whichever reads better on the given fill (WCAG relative luminance)
+ */
+export function getContrastColor(fill: string, dark: string = "#333333", light: string = "#FFFFFF"): string {
+    const hex = (fill || "").replace("#", "");
+    const full = hex.length === 3 ? hex.split("").map(c => c + c).join("") : hex;
+    if (!/^[0-9a-fA-F]{6}$/.test(full)) {
+        return dark;
+    }
+
+    const channel = (offset: number): number => {
+        const value = parseInt(full.substring(offset, offset + 2), 16) / 255;
+        return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    };
+    const luminance = 0.2126 * channel(0) + 0.7152 * channel(2) + 0.0722 * channel(4);
+
+    // Contrast against white is better below ~0.179 luminance
+    return luminance > 0.179 ? dark : light;
+}
@@ -1,17 +1,66 @@
-import { formattingSettings } from "powerbi-visuals-utils-formattingmodel";
+import { formattingSettings, formattingSettingsInterfaces } from "powerbi-visuals-utils-formattingmodel";
+import { dataViewWildcard } from "powerbi-visuals-utils-dataviewutils";
 import powerbi from "powerbi-visuals-api";
+import { FillStyle } from "./waterfallLayout";
 
 import FormattingSettingsCard = formattingSettings.SimpleCard;
 import FormattingSettingsSlice = formattingSettings.Slice;
 import FormattingSettingsModel = formattingSettings.Model;
+import ILocalizedItemMember = formattingSettingsInterfaces.ILocalizedItemMember;
+
+/**
+ * One color picker in the data-bound Data Colors card
+ */
+export interface DataColorItem {
+    displayName: string;
+    color: string;
+    selector: powerbi.data.Selector;
+}
+
+const fillStyleItems: ILocalizedItemMember[] = [
+    { value: "solid", displayNameKey: "Visual_Solid" },
+    { value: "dots", displayNameKey: "Visual_Dots" },
+    { value: "stripes", displayNameKey: "Visual_DiagonalStripes" },
+    { value: "crosshatch", displayNameKey: "Visual_Crosshatch" },
+    { value: "outline", displayNameKey: "Visual_OutlineOnly" }
+];
+
+function fillStyleDropdown(name: string, displayName: string, displayNameKey: string, value: FillStyle): formattingSettings.ItemDropdown {
+    return new formattingSettings.ItemDropdown({
+        name,
+        displayName,
+        displayNameKey,
+        items: fillStyleItems,
+        value: fillStyleItems.find(item => item.value === value)
+    });
+}
+
+/**
+ * Selector that lets a color accept fx conditional formatting, evaluated per category
+ */
+function conditionalColorSelector(): powerbi.data.Selector {
+    return dataViewWildcard.createDataViewWildcardSelector(dataViewWildcard.DataViewWildcardMatchingOption.InstancesAndTotals);
+}
 
 /**
  * Chart display settings
  */
 class ChartSettingsCard extends FormattingSettingsCard {
+    orientation = new formattingSettings.ItemDropdown({
+        name: "orientation",
+        displayName: "Orientation",
+        displayNameKey: "Visual_Orientation",
+        items: [
+            { value: "vertical", displayNameKey: "Visual_Vertical" },
+            { value: "horizontal", displayNameKey: "Visual_Horizontal" }
+        ],
+        value: { value: "vertical", displayNameKey: "Visual_Vertical" }
+    });
+
     barWidth = new formattingSettings.NumUpDown({
         name: "barWidth",
         displayName: "Bar Width",
+        displayNameKey: "Visual_BarWidth",
         value: 40,
         options: {
             minValue: { type: powerbi.visuals.ValidatorType.Min, value: 15 },
@@ -22,6 +71,7 @@ class ChartSettingsCard extends FormattingSettingsCard {
     barGap = new formattingSettings.NumUpDown({
         name: "barGap",
         displayName: "Bar Gap",
+        displayNameKey: "Visual_BarGap",
         value: 10,
         options: {
             minValue: { type: powerbi.visuals.ValidatorType.Min, value: 2 },
@@ -29,15 +79,29 @@ class ChartSettingsCard extends FormattingSettingsCard {
         }
     });
 
+    // Below this width the bars stop shrinking and the chart scrolls
+    minBarWidth = new formattingSettings.NumUpDown({
+        name: "minBarWidth",
+        displayName: "Minimum Bar Width",
+        displayNameKey: "Visual_MinimumBarWidth",
+        value: 12,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 2 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
     showValues = new formattingSettings.ToggleSwitch({
         name: "showValues",
         displayName: "Show Values",
+        displayNameKey: "Visual_ShowValues",
         value: true
     });
 
     valueFontSize = new formattingSettings.NumUpDown({
         name: "valueFontSize",
         displayName: "Value Font Size",
+        displayNameKey: "Visual_ValueFontSize",
         value: 10,
         options: {
             minValue: { type: powerbi.visuals.ValidatorType.Min, value: 7 },
@@ -45,20 +109,106 @@ class ChartSettingsCard extends FormattingSettingsCard {
         }
     });
 
+    displayUnits = new formattingSettings.AutoDropdown({
+        name: "displayUnits",
+        displayName: "Display Units",
+        displayNameKey: "Visual_DisplayUnits",
+        value: 0
+    });
+
+    decimalPlaces = new formattingSettings.NumUpDown({
+        name: "decimalPlaces",
+        displayName: "Decimal Places",
+        displayNameKey: "Visual_DecimalPlaces",
+        value: null,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 9 }
+        }
+    });
+
     showConnectors = new formattingSettings.ToggleSwitch({
         name: "showConnectors",
         displayName: "Show Connectors",
+        displayNameKey: "Visual_ShowConnectors",
+        value: true
+    });
+
+    resetAfterTotal = new formattingSettings.ToggleSwitch({
+        name: "resetAfterTotal",
+        displayName: "Reset After Total",
+        displayNameKey: "Visual_ResetAfterTotal",
+        value: false
+    });
+
+    showZoneTitles = new formattingSettings.ToggleSwitch({
+        name: "showZoneTitles",
+        displayName: "Show Zone Titles",
+        displayNameKey: "Visual_ShowZoneTitles",
+        value: true
+    });
+
+    autoSubtotals = new formattingSettings.ToggleSwitch({
+        name: "autoSubtotals",
+        displayName: "Hierarchy Subtotals",
+        displayNameKey: "Visual_HierarchySubtotals",
+        value: true
+    });
+
+    topNSteps = new formattingSettings.NumUpDown({
+        name: "topNSteps",
+        displayName: "Top N Steps (0 = All)",
+        displayNameKey: "Visual_TopNSteps0All",
+        value: 0,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 500 }
+        }
+    });
+
+    othersLabel = new formattingSettings.TextInput({
+        name: "othersLabel",
+        displayName: "Others Label",
+        displayNameKey: "Visual_OthersLabel",
+        value: "",
+        placeholder: "Others"
+    });
+
+    animate = new formattingSettings.ToggleSwitch({
+        name: "animate",
+        displayName: "Animate Transitions",
+        displayNameKey: "Visual_AnimateTransitions",
+        value: true
+    });
+
+    compactMode = new formattingSettings.ToggleSwitch({
+        name: "compactMode",
+        displayName: "Compact Mode on Small Tiles",
+        displayNameKey: "Visual_CompactModeOnSmallTiles",
         value: true
     });
 
     name: string = "chartSettings";
     displayName: string = "Chart Settings";
+    displayNameKey: string = "Visual_ChartSettings";
+
     slices: Array<FormattingSettingsSlice> = [
+        this.orientation,
         this.barWidth,
         this.barGap,
+        this.minBarWidth,
         this.showValues,
         this.valueFontSize,
-        this.showConnectors
+        this.displayUnits,
+        this.decimalPlaces,
+        this.showConnectors,
+        this.resetAfterTotal,
+        this.showZoneTitles,
+        this.autoSubtotals,
+        this.topNSteps,
+        this.othersLabel,
+        this.animate,
+        this.compactMode
     ];
 }
 
@@ -69,49 +219,80 @@ class ColorSettingsCard extends FormattingSettingsCard {
     defaultBarColor = new formattingSettings.ColorPicker({
         name: "defaultBarColor",
         displayName: "Default Bar Color",
-        value: { value: "#4472C4" }
+        displayNameKey: "Visual_DefaultBarColor",
+        value: { value: "#4472C4" },
+        selector: conditionalColorSelector(),
+        instanceKind: powerbi.VisualEnumerationInstanceKinds.ConstantOrRule
+    });
+
+    increaseColor = new formattingSettings.ColorPicker({
+        name: "increaseColor",
+        displayName: "Increase Color",
+        displayNameKey: "Visual_IncreaseColor",
+        value: { value: "#70AD47" }
+    });
+
+    decreaseColor = new formattingSettings.ColorPicker({
+        name: "decreaseColor",
+        displayName: "Decrease Color",
+        displayNameKey: "Visual_DecreaseColor",
+        value: { value: "#E15759" }
     });
 
     subtotalColor = new formattingSettings.ColorPicker({
         name: "subtotalColor",
         displayName: "Subtotal Color",
-        value: { value: "#5B9BD5" }
+        displayNameKey: "Visual_SubtotalColor",
+        value: { value: "#5B9BD5" },
+        selector: conditionalColorSelector(),
+        instanceKind: powerbi.VisualEnumerationInstanceKinds.ConstantOrRule
     });
 
     totalColor = new formattingSettings.ColorPicker({
         name: "totalColor",
         displayName: "Total Color",
-        value: { value: "#2B5797" }
+        displayNameKey: "Visual_TotalColor",
+        value: { value: "#2B5797" },
+        selector: conditionalColorSelector(),
+        instanceKind: powerbi.VisualEnumerationInstanceKinds.ConstantOrRule
     });
 
+    // Replaced by the Fill Styles card; still read from older reports, never shown
     usePatternForSubtotal = new formattingSettings.ToggleSwitch({
         name: "usePatternForSubtotal",
         displayName: "Pattern for Subtotal",
-        value: true
+        value: true,
+        visible: false
     });
 
     usePatternForTotal = new formattingSettings.ToggleSwitch({
         name: "usePatternForTotal",
         displayName: "Pattern for Total",
-        value: false
+        value: false,
+        visible: false
     });
 
     separatorColor = new formattingSettings.ColorPicker({
         name: "separatorColor",
         displayName: "Separator Color",
+        displayNameKey: "Visual_SeparatorColor",
         value: { value: "#666666" }
     });
 
     connectorColor = new formattingSettings.ColorPicker({
         name: "connectorColor",
         displayName: "Connector Color",
+        displayNameKey: "Visual_ConnectorColor",
         value: { value: "#999999" }
     });
 
     name: string = "colorSettings";
     displayName: string = "Color Settings";
+    displayNameKey: string = "Visual_ColorSettings";
     slices: Array<FormattingSettingsSlice> = [
         this.defaultBarColor,
+        this.increaseColor,
+        this.decreaseColor,
         this.subtotalColor,
         this.totalColor,
         this.usePatternForSubtotal,
@@ -121,6 +302,92 @@ class ColorSettingsCard extends FormattingSettingsCard {
     ];
 }
 
+/**
+ * Fill style per bar type, and the pattern, border and corner shared by all bars
+ */
+class FillStyleSettingsCard extends FormattingSettingsCard {
+    startFill = fillStyleDropdown("startFill", "Start Fill", "Visual_StartFill", "solid");
+    stepFill = fillStyleDropdown("stepFill", "Step Fill", "Visual_StepFill", "solid");
+    subtotalFill = fillStyleDropdown("subtotalFill", "Subtotal Fill", "Visual_SubtotalFill", "dots");
+    totalFill = fillStyleDropdown("totalFill", "Total Fill", "Visual_TotalFill", "solid");
+    barFill = fillStyleDropdown("barFill", "Bar Fill", "Visual_BarFill", "solid");
+
+    patternColor = new formattingSettings.ColorPicker({
+        name: "patternColor",
+        displayName: "Pattern Color",
+        displayNameKey: "Visual_PatternColor",
+        value: { value: "#333333" }
+    });
+
+    patternOpacity = new formattingSettings.NumUpDown({
+        name: "patternOpacity",
+        displayName: "Pattern Opacity (%)",
+        displayNameKey: "Visual_PatternOpacity",
+        value: 30,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 5 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    patternSpacing = new formattingSettings.NumUpDown({
+        name: "patternSpacing",
+        displayName: "Pattern Spacing",
+        displayNameKey: "Visual_PatternSpacing",
+        value: 6,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 3 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 20 }
+        }
+    });
+
+    borderColor = new formattingSettings.ColorPicker({
+        name: "borderColor",
+        displayName: "Border Color",
+        displayNameKey: "Visual_BorderColor",
+        value: { value: "#333333" }
+    });
+
+    borderWidth = new formattingSettings.NumUpDown({
+        name: "borderWidth",
+        displayName: "Border Width",
+        displayNameKey: "Visual_BorderWidth",
+        value: 0,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 5 }
+        }
+    });
+
+    cornerRadius = new formattingSettings.NumUpDown({
+        name: "cornerRadius",
+        displayName: "Corner Radius",
+        displayNameKey: "Visual_CornerRadius",
+        value: 0,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 20 }
+        }
+    });
+
+    name: string = "fillStyles";
+    displayName: string = "Fill Styles";
+    displayNameKey: string = "Visual_FillStyles";
+    slices: Array<FormattingSettingsSlice> = [
+        this.startFill,
+        this.stepFill,
+        this.subtotalFill,
+        this.totalFill,
+        this.barFill,
+        this.patternColor,
+        this.patternOpacity,
+        this.patternSpacing,
+        this.borderColor,
+        this.borderWidth,
+        this.cornerRadius
+    ];
+}
+
 /**
  * Axis settings
  */
@@ -128,12 +395,14 @@ class AxisSettingsCard extends FormattingSettingsCard {
     showXAxis = new formattingSettings.ToggleSwitch({
         name: "showXAxis",
         displayName: "Show X Axis",
+        displayNameKey: "Visual_ShowXAxis",
         value: true
     });
 
     xAxisFontSize = new formattingSettings.NumUpDown({
         name: "xAxisFontSize",
         displayName: "X Axis Font Size",
+        displayNameKey: "Visual_XAxisFontSize",
         value: 11,
         options: {
             minValue: { type: powerbi.visuals.ValidatorType.Min, value: 8 },
@@ -144,6 +413,7 @@ class AxisSettingsCard extends FormattingSettingsCard {
     labelRotation = new formattingSettings.NumUpDown({
         name: "labelRotation",
         displayName: "Label Rotation",
+        displayNameKey: "Visual_LabelRotation",
         value: 0,
         options: {
             minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
@@ -154,11 +424,13 @@ class AxisSettingsCard extends FormattingSettingsCard {
     xAxisColor = new formattingSettings.ColorPicker({
         name: "xAxisColor",
         displayName: "X Axis Color",
+        displayNameKey: "Visual_XAxisColor",
         value: { value: "#333333" }
     });
 
     name: string = "axisSettings";
     displayName: string = "Axis Settings";
+    displayNameKey: string = "Visual_AxisSettings";
     slices: Array<FormattingSettingsSlice> = [
         this.showXAxis,
         this.xAxisFontSize,
@@ -167,12 +439,605 @@ class AxisSettingsCard extends FormattingSettingsCard {
     ];
 }
 
+/**
+ * Y axis settings
+ */
+class YAxisSettingsCard extends FormattingSettingsCard {
+    showYAxis = new formattingSettings.ToggleSwitch({
+        name: "showYAxis",
+        displayName: "Show Y Axis",
+        displayNameKey: "Visual_ShowYAxis",
+        value: true
+    });
+
+    position = new formattingSettings.ItemDropdown({
+        name: "position",
+        displayName: "Position",
+        displayNameKey: "Visual_Position",
+        items: [
+            { value: "left", displayNameKey: "Visual_Left" },
+            { value: "right", displayNameKey: "Visual_Right" }
+        ],
+        value: { value: "left", displayNameKey: "Visual_Left" }
+    });
+
+    rangeMin = new formattingSettings.NumUpDown({
+        name: "rangeMin",
+        displayName: "Minimum",
+        displayNameKey: "Visual_Minimum",
+        value: null
+    });
+
+    rangeMax = new formattingSettings.NumUpDown({
+        name: "rangeMax",
+        displayName: "Maximum",
+        displayNameKey: "Visual_Maximum",
+        value: null
+    });
+
+    yAxisFontSize = new formattingSettings.NumUpDown({
+        name: "yAxisFontSize",
+        displayName: "Y Axis Font Size",
+        displayNameKey: "Visual_YAxisFontSize",
+        value: 10,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 8 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 16 }
+        }
+    });
+
+    yAxisColor = new formattingSettings.ColorPicker({
+        name: "yAxisColor",
+        displayName: "Y Axis Color",
+        displayNameKey: "Visual_YAxisColor",
+        value: { value: "#333333" }
+    });
+
+    showGridlines = new formattingSettings.ToggleSwitch({
+        name: "showGridlines",
+        displayName: "Show Gridlines",
+        displayNameKey: "Visual_ShowGridlines",
+        value: true
+    });
+
+    gridlineColor = new formattingSettings.ColorPicker({
+        name: "gridlineColor",
+        displayName: "Gridline Color",
+        displayNameKey: "Visual_GridlineColor",
+        value: { value: "#E6E6E6" }
+    });
+
+    showTitle = new formattingSettings.ToggleSwitch({
+        name: "showTitle",
+        displayName: "Show Title",
+        displayNameKey: "Visual_ShowTitle",
+        value: false
+    });
+
+    titleText = new formattingSettings.TextInput({
+        name: "titleText",
+        displayName: "Title",
+        displayNameKey: "Visual_Title",
+        value: "",
+        placeholder: "Axis title"
+    });
+
+    name: string = "yAxisSettings";
+    displayName: string = "Y Axis";
+    displayNameKey: string = "Visual_YAxis";
+    slices: Array<FormattingSettingsSlice> = [
+        this.showYAxis,
+        this.position,
+        this.rangeMin,
+        this.rangeMax,
+        this.yAxisFontSize,
+        this.yAxisColor,
+        this.showGridlines,
+        this.gridlineColor,
+        this.showTitle,
+        this.titleText
+    ];
+}
+
+/**
+ * Annotation settings: step percentages and a delta bracket between two bars
+ */
+class AnnotationSettingsCard extends FormattingSettingsCard {
+    percentMode = new formattingSettings.ItemDropdown({
+        name: "percentMode",
+        displayName: "Step Percentage",
+        displayNameKey: "Visual_StepPercentage",
+        items: [
+            { value: "none", displayNameKey: "Visual_None" },
+            { value: "opening", displayNameKey: "Visual_OfOpeningValue" },
+            { value: "total", displayNameKey: "Visual_OfFinalTotal" }
+        ],
+        value: { value: "none", displayNameKey: "Visual_None" }
+    });
+
+    showBracket = new formattingSettings.ToggleSwitch({
+        name: "showBracket",
+        displayName: "Show Delta Bracket",
+        displayNameKey: "Visual_ShowDeltaBracket",
+        value: false
+    });
+
+    bracketFrom = new formattingSettings.TextInput({
+        name: "bracketFrom",
+        displayName: "Bracket From",
+        displayNameKey: "Visual_BracketFrom",
+        value: "",
+        placeholder: "Category or sequence"
+    });
+
+    bracketTo = new formattingSettings.TextInput({
+        name: "bracketTo",
+        displayName: "Bracket To",
+        displayNameKey: "Visual_BracketTo",
+        value: "",
+        placeholder: "Category or sequence"
+    });
+
+    annotationColor = new formattingSettings.ColorPicker({
+        name: "annotationColor",
+        displayName: "Annotation Color",
+        displayNameKey: "Visual_AnnotationColor",
+        value: { value: "#333333" }
+    });
+
+    annotationFontSize = new formattingSettings.NumUpDown({
+        name: "annotationFontSize",
+        displayName: "Annotation Font Size",
+        displayNameKey: "Visual_AnnotationFontSize",
+        value: 9,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 7 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 16 }
+        }
+    });
+
+    name: string = "annotationSettings";
+    displayName: string = "Annotations";
+    displayNameKey: string = "Visual_Annotations";
+    slices: Array<FormattingSettingsSlice> = [
+        this.percentMode,
+        this.showBracket,
+        this.bracketFrom,
+        this.bracketTo,
+        this.annotationColor,
+        this.annotationFontSize
+    ];
+}
+
+/**
+ * Legend for the measures stacked in each bar. The hidden measures are not a
+ * slice: the legend persists them itself when an item is clicked.
+ */
+class LegendSettingsCard extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Legend",
+        displayNameKey: "Visual_ShowLegend",
+        value: true
+    });
+
+    position = new formattingSettings.ItemDropdown({
+        name: "position",
+        displayName: "Position",
+        displayNameKey: "Visual_Position",
+        items: [
+            { value: "top", displayNameKey: "Visual_Top" },
+            { value: "bottom", displayNameKey: "Visual_Bottom" },
+            { value: "left", displayNameKey: "Visual_Left" },
+            { value: "right", displayNameKey: "Visual_Right" }
+        ],
+        value: { value: "top", displayNameKey: "Visual_Top" }
+    });
+
+    showTitle = new formattingSettings.ToggleSwitch({
+        name: "showTitle",
+        displayName: "Show Title",
+        displayNameKey: "Visual_ShowTitle",
+        value: true
+    });
+
+    titleText = new formattingSettings.TextInput({
+        name: "titleText",
+        displayName: "Title",
+        displayNameKey: "Visual_Title",
+        value: "",
+        placeholder: "Measures"
+    });
+
+    fontSize = new formattingSettings.NumUpDown({
+        name: "fontSize",
+        displayName: "Font Size",
+        displayNameKey: "Visual_FontSize",
+        value: 10,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 8 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 16 }
+        }
+    });
+
+    labelColor = new formattingSettings.ColorPicker({
+        name: "labelColor",
+        displayName: "Text Color",
+        displayNameKey: "Visual_TextColor",
+        value: { value: "#333333" }
+    });
+
+    name: string = "legend";
+    displayName: string = "Legend";
+    displayNameKey: string = "Visual_Legend";
+    slices: Array<FormattingSettingsSlice> = [
+        this.show,
+        this.position,
+        this.showTitle,
+        this.titleText,
+        this.fontSize,
+        this.labelColor
+    ];
+}
+
+/**
+ * Comparison scenario: its own waterfall in each category slot, on the main value scale
+ */
+class ComparisonSettingsCard extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Comparison",
+        displayNameKey: "Visual_ShowComparison",
+        value: true
+    });
+
+    style = new formattingSettings.ItemDropdown({
+        name: "style",
+        displayName: "Style",
+        displayNameKey: "Visual_Style",
+        items: [
+            { value: "ghost", displayNameKey: "Visual_Ghost" },
+            { value: "clustered", displayNameKey: "Visual_Clustered" }
+        ],
+        value: { value: "ghost", displayNameKey: "Visual_Ghost" }
+    });
+
+    color = new formattingSettings.ColorPicker({
+        name: "color",
+        displayName: "Color",
+        displayNameKey: "Visual_Color",
+        value: { value: "#A19F9D" }
+    });
+
+    label = new formattingSettings.TextInput({
+        name: "label",
+        displayName: "Scenario Name",
+        displayNameKey: "Visual_ScenarioName",
+        value: "",
+        placeholder: "Comparison measure name"
+    });
+
+    name: string = "comparison";
+    displayName: string = "Comparison";
+    displayNameKey: string = "Visual_Comparison";
+    slices: Array<FormattingSettingsSlice> = [
+        this.show,
+        this.style,
+        this.color,
+        this.label
+    ];
+}
+
+/**
+ * Markers for the Target measure, one across each bar
+ */
+class TargetSettingsCard extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Target Markers",
+        displayNameKey: "Visual_ShowTargetMarkers",
+        value: true
+    });
+
+    markerColor = new formattingSettings.ColorPicker({
+        name: "markerColor",
+        displayName: "Marker Color",
+        displayNameKey: "Visual_MarkerColor",
+        value: { value: "#252423" }
+    });
+
+    flagOverTarget = new formattingSettings.ToggleSwitch({
+        name: "flagOverTarget",
+        displayName: "Flag Bars Over Target",
+        displayNameKey: "Visual_FlagBarsOverTarget",
+        value: true
+    });
+
+    overTargetColor = new formattingSettings.ColorPicker({
+        name: "overTargetColor",
+        displayName: "Over Target Color",
+        displayNameKey: "Visual_OverTargetColor",
+        value: { value: "#D64550" }
+    });
+
+    name: string = "targets";
+    displayName: string = "Targets";
+    displayNameKey: string = "Visual_Targets";
+    slices: Array<FormattingSettingsSlice> = [
+        this.show,
+        this.markerColor,
+        this.flagOverTarget,
+        this.overTargetColor
+    ];
+}
+
+/**
+ * Reference lines across the plot: one per Reference Lines measure, plus an optional constant
+ */
+class ReferenceLineSettingsCard extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Reference Lines",
+        displayNameKey: "Visual_ShowReferenceLines",
+        value: true
+    });
+
+    constantValue = new formattingSettings.NumUpDown({
+        name: "constantValue",
+        displayName: "Constant Line Value",
+        displayNameKey: "Visual_ConstantLineValue",
+        value: null
+    });
+
+    constantLabel = new formattingSettings.TextInput({
+        name: "constantLabel",
+        displayName: "Constant Line Label",
+        displayNameKey: "Visual_ConstantLineLabel",
+        value: "",
+        placeholder: "Budget envelope"
+    });
+
+    lineColor = new formattingSettings.ColorPicker({
+        name: "lineColor",
+        displayName: "Line Color",
+        displayNameKey: "Visual_LineColor",
+        value: { value: "#605E5C" }
+    });
+
+    lineStyle = new formattingSettings.ItemDropdown({
+        name: "lineStyle",
+        displayName: "Line Style",
+        displayNameKey: "Visual_LineStyle",
+        items: [
+            { value: "solid", displayNameKey: "Visual_Solid" },
+            { value: "dashed", displayNameKey: "Visual_Dashed" },
+            { value: "dotted", displayNameKey: "Visual_Dotted" }
+        ],
+        value: { value: "dashed", displayNameKey: "Visual_Dashed" }
+    });
+
+    showLabels = new formattingSettings.ToggleSwitch({
+        name: "showLabels",
+        displayName: "Show Labels",
+        displayNameKey: "Visual_ShowLabels",
+        value: true
+    });
+
+    fontSize = new formattingSettings.NumUpDown({
+        name: "fontSize",
+        displayName: "Label Font Size",
+        displayNameKey: "Visual_LabelFontSize",
+        value: 9,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 7 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 16 }
+        }
+    });
+
+    name: string = "referenceLines";
+    displayName: string = "Reference Lines";
+    displayNameKey: string = "Visual_ReferenceLines";
+    slices: Array<FormattingSettingsSlice> = [
+        this.show,
+        this.constantValue,
+        this.constantLabel,
+        this.lineColor,
+        this.lineStyle,
+        this.showLabels,
+        this.fontSize
+    ];
+}
+
+/**
+ * Data validation overlay, shown to report authors in edit mode only
+ */
+class DiagnosticsSettingsCard extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Diagnostics",
+        displayNameKey: "Visual_ShowDiagnostics",
+        value: true
+    });
+
+    name: string = "diagnostics";
+    displayName: string = "Data Diagnostics";
+    displayNameKey: string = "Visual_DataDiagnostics";
+    slices: Array<FormattingSettingsSlice> = [
+        this.show
+    ];
+}
+
+/**
+ * Bridge built from the Opening and Closing measures, with one step per category
+ */
+class AutoBridgeSettingsCard extends FormattingSettingsCard {
+    openingLabel = new formattingSettings.TextInput({
+        name: "openingLabel",
+        displayName: "Opening Label",
+        displayNameKey: "Visual_OpeningLabel",
+        value: "",
+        placeholder: "Opening measure name"
+    });
+
+    closingLabel = new formattingSettings.TextInput({
+        name: "closingLabel",
+        displayName: "Closing Label",
+        displayNameKey: "Visual_ClosingLabel",
+        value: "",
+        placeholder: "Closing measure name"
+    });
+
+    sortDrivers = new formattingSettings.ItemDropdown({
+        name: "sortDrivers",
+        displayName: "Sort Drivers",
+        displayNameKey: "Visual_SortDrivers",
+        items: [
+            { value: "data", displayNameKey: "Visual_Sequence" },
+            { value: "impact", displayNameKey: "Visual_LargestImpactFirst" },
+            { value: "name", displayNameKey: "Visual_Name" }
+        ],
+        value: { value: "data", displayNameKey: "Visual_Sequence" }
+    });
+
+    showUnexplained = new formattingSettings.ToggleSwitch({
+        name: "showUnexplained",
+        displayName: "Show Unexplained Step",
+        displayNameKey: "Visual_ShowUnexplainedStep",
+        value: true
+    });
+
+    unexplainedLabel = new formattingSettings.TextInput({
+        name: "unexplainedLabel",
+        displayName: "Unexplained Label",
+        displayNameKey: "Visual_UnexplainedLabel",
+        value: "",
+        placeholder: "Unexplained"
+    });
+
+    name: string = "autoBridge";
+    displayName: string = "Automatic Bridge";
+    displayNameKey: string = "Visual_AutomaticBridge";
+    slices: Array<FormattingSettingsSlice> = [
+        this.openingLabel,
+        this.closingLabel,
+        this.sortDrivers,
+        this.showUnexplained,
+        this.unexplainedLabel
+    ];
+}
+
+/**
+ * Buttons over the chart to switch to the table view and to export the bridge as CSV
+ */
+class BridgeTableSettingsCard extends FormattingSettingsCard {
+    showToolbar = new formattingSettings.ToggleSwitch({
+        name: "showToolbar",
+        displayName: "Show Table and Export Buttons",
+        displayNameKey: "Visual_ShowTableAndExportButtons",
+        value: true
+    });
+
+    name: string = "bridgeTable";
+    displayName: string = "Bridge Table";
+    displayNameKey: string = "Visual_BridgeTable";
+    slices: Array<FormattingSettingsSlice> = [
+        this.showToolbar
+    ];
+}
+
+/**
+ * Data colors: one picker per measure, or per category when a single measure is bound
+ */
+class DataColorsCard extends FormattingSettingsCard {
+    name: string = "dataColors";
+    displayName: string = "Data Colors";
+    displayNameKey: string = "Visual_DataColors";
+    slices: Array<FormattingSettingsSlice> = [];
+}
+
 /**
  * Visual formatting settings model
  */
 export class VisualFormattingSettingsModel extends FormattingSettingsModel {
     chartSettings = new ChartSettingsCard();
     colorSettings = new ColorSettingsCard();
+    fillStyles = new FillStyleSettingsCard();
     axisSettings = new AxisSettingsCard();
-    cards = [this.chartSettings, this.colorSettings, this.axisSettings];
+    yAxisSettings = new YAxisSettingsCard();
+    dataColors = new DataColorsCard();
+    annotationSettings = new AnnotationSettingsCard();
+    legend = new LegendSettingsCard();
+    comparison = new ComparisonSettingsCard();
+    targets = new TargetSettingsCard();
+    referenceLines = new ReferenceLineSettingsCard();
+    diagnostics = new DiagnosticsSettingsCard();
+    autoBridge = new AutoBridgeSettingsCard();
+    bridgeTable = new BridgeTableSettingsCard();
+    cards = [
+        this.chartSettings,
+        this.colorSettings,
+        this.fillStyles,
+        this.dataColors,
+        this.legend,
+        this.axisSettings,
+        this.yAxisSettings,
+        this.annotationSettings,
+        this.autoBridge,
+        this.comparison,
+        this.targets,
+        this.referenceLines,
+        this.diagnostics,
+        this.bridgeTable
+    ];
+
+    public populateDataColors(items: DataColorItem[]): void {
+        this.dataColors.slices = items.map(item => new formattingSettings.ColorPicker({
+            name: "fill",
+            displayName: item.displayName,
+            value: { value: item.color },
+            selector: item.selector
+        }));
+    }
+
+    /**
+     * Reports saved before the Fill Styles card only have the pattern
+     * toggles: they stand in for the subtotal and total fills until those
+     * are set. The old pattern was always dots.
+     */
+    public migrateLegacyPatterns(objects: powerbi.DataViewObjects | undefined): void {
+        const fillStyles = objects?.fillStyles;
+        const legacy: [formattingSettings.ItemDropdown, string, formattingSettings.ToggleSwitch][] = [
+            [this.fillStyles.subtotalFill, "subtotalFill", this.colorSettings.usePatternForSubtotal],
+            [this.fillStyles.totalFill, "totalFill", this.colorSettings.usePatternForTotal]
+        ];
+        for (const [dropdown, name, usePattern] of legacy) {
+            if (fillStyles?.[name] === undefined) {
+                const fill: FillStyle = usePattern.value ? "dots" : "solid";
+                dropdown.value = fillStyleItems.find(item => item.value === fill);
+            }
+        }
+    }
+
+    /**
+     * Text input placeholders take no localization key, so they are set from
+     * the visual's strings after each populate. The English ones in the
+     * slices stay as the fallback.
+     */
+    public localizePlaceholders(localizationManager: powerbi.extensibility.ILocalizationManager): void {
+        const placeholders: [{ placeholder: string }, string][] = [
+            [this.chartSettings.othersLabel, "Visual_Others"],
+            [this.yAxisSettings.titleText, "Visual_Placeholder_AxisTitle"],
+            [this.annotationSettings.bracketFrom, "Visual_Placeholder_CategoryOrSequence"],
+            [this.annotationSettings.bracketTo, "Visual_Placeholder_CategoryOrSequence"],
+            [this.legend.titleText, "Visual_Measures"],
+            [this.comparison.label, "Visual_Placeholder_ComparisonMeasureName"],
+            [this.referenceLines.constantLabel, "Visual_Placeholder_BudgetEnvelope"],
+            [this.autoBridge.openingLabel, "Visual_Placeholder_OpeningMeasureName"],
+            [this.autoBridge.closingLabel, "Visual_Placeholder_ClosingMeasureName"],
+            [this.autoBridge.unexplainedLabel, "Visual_Unexplained"]
+        ];
+        for (const [slice, key] of placeholders) {
+            slice.placeholder = localizationManager.getDisplayName(key);
+        }
+    }
 }
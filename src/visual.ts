@@ -1,491 +1,3492 @@
 import powerbi from "powerbi-visuals-api";
+import { BaseType, pointer, ScaleLinear, select, Selection, Transition } from "d3";
 import { FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel";
-import { VisualFormattingSettingsModel } from "./settings";
+import { textMeasurementService, valueFormatter } from "powerbi-visuals-utils-formattingutils";
+import { dataViewObjects } from "powerbi-visuals-utils-dataviewutils";
+import { DataColorItem, VisualFormattingSettingsModel } from "./settings";
+import {
+    BarFill, BarType, BridgeBarKind, ChartMargin, DriverSort, FillStyle, PlotArea, SceneBar, SceneBarLine, SceneComparison, SceneLine, SceneRect,
+    SceneStyle, SceneText, WaterfallBarInput, WaterfallInput, WaterfallLayout, WaterfallScene,
+    addBridgeEnds, buildWaterfallScene, computeWaterfallLayout, createValueScale, foldSmallSteps, getTickCount, getValueExtent,
+    getZoneIndexes, insertHierarchySubtotals, renderWaterfallSvg, resolveBarFill, sortDrivers, sumFoldedSteps
+} from "./waterfallLayout";
+import { BridgeCell, BridgeColumn, BridgeTable, toCsv } from "./bridgeTable";
+import {
+    LabelCandidate, LabelSlot, PlacedLabel, getContrastColor, isTruncated, measureTextWidth, placeLabels, truncateText, wrapText
+} from "./labelLayout";
 
 import VisualConstructorOptions = powerbi.extensibility.visual.VisualConstructorOptions;
 import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
 import IVisual = powerbi.extensibility.visual.IVisual;
 import DataView = powerbi.DataView;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
+import IVisualEventService = powerbi.extensibility.IVisualEventService;
 import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
 import DataViewValueColumn = powerbi.DataViewValueColumn;
+import ISelectionId = powerbi.visuals.ISelectionId;
+import ISelectionManager = powerbi.extensibility.ISelectionManager;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import PrimitiveValue = powerbi.PrimitiveValue;
+import ILocalizationManager = powerbi.extensibility.ILocalizationManager;
+import IValueFormatter = valueFormatter.IValueFormatter;
 
 import "../style/visual.less";
 
 // --- Interfaces ---
 
-type BarType = "step" | "subtotal" | "total" | "bar";
+const BAR_TYPES: BarType[] = ["start", "step", "subtotal", "total", "bar"];
+
+const DATA_COLOR_PROPERTY: powerbi.DataViewObjectPropertyIdentifier = { objectName: "dataColors", propertyName: "fill" };
+
+/** JSON array of the query names of measures toggled off in the legend */
+const HIDDEN_MEASURES_PROPERTY: powerbi.DataViewObjectPropertyIdentifier = { objectName: "legend", propertyName: "hiddenMeasures" };
+
+/** Alternative spellings accepted in the Bar Type column */
+const BAR_TYPE_ALIASES: { [alias: string]: BarType } = {
+    anchor: "start"
+};
+
+/** Roles that must be bound before the chart can draw */
+const REQUIRED_ROLES: { name: string; displayNameKey: string }[] = [
+    { name: "category", displayNameKey: "Visual_Category" },
+    { name: "barType", displayNameKey: "Visual_BarType" },
+    { name: "values", displayNameKey: "Visual_Values" }
+];
+
+/** Languages written right to left, by their primary subtag */
+const RTL_LANGUAGES = ["ar", "he", "fa", "ur"];
+
+/** File name of the exported bridge table */
+const BRIDGE_FILE_NAME = "waterfall-bridge.csv";
+
+/** Tile sizes below which compact mode drops another level of detail */
+const COMPACT_BREAKPOINTS: { width: number; height: number }[] = [
+    { width: 320, height: 220 },
+    { width: 240, height: 160 },
+    { width: 160, height: 110 },
+    { width: 100, height: 70 }
+];
+
+/**
+ * Compact level at which each part is dropped: first the legend, annotations
+ * and titles, then value labels, then the axes, and connectors last
+ */
+const COMPACT_LEVELS = {
+    legend: 1,
+    annotations: 1,
+    titles: 1,
+    valueLabels: 2,
+    axes: 3,
+    connectors: 4
+};
+
+type CompactPart = keyof typeof COMPACT_LEVELS;
+
+/** Thickness of the scrollbar, and the space kept for it beside the plot */
+const SCROLLBAR_SIZE = 6;
+const SCROLLBAR_SPACE = 12;
+
+/**
+ * Bar type for a Bar Type cell; blank cells are steps, unrecognized ones null
+ */
+function parseBarType(raw: PrimitiveValue): BarType | null {
+    const normalized = String(raw || "step").trim().toLowerCase();
+    if ((BAR_TYPES as string[]).indexOf(normalized) >= 0) {
+        return normalized as BarType;
+    }
+    return BAR_TYPE_ALIASES[normalized] || null;
+}
+
+/**
+ * Number in a Sequence cell; null when blank or not a number (0 is valid)
+ */
+function parseSequence(raw: PrimitiveValue): number | null {
+    if (raw === null || raw === undefined || raw === "") {
+        return null;
+    }
+    const sequence = Number(raw);
+    return isFinite(sequence) ? sequence : null;
+}
+
+/**
+ * A problem found in the bound data, listed in the authors' diagnostics overlay
+ */
+interface ValidationIssue {
+    code: "blankCategory" | "invalidSequence" | "unknownBarType" | "duplicateCategory" | "unexplainedGap";
+    /** Errors are data the chart could not use as bound; warnings and info it could */
+    severity: "error" | "warning" | "info";
+    message: string;
+}
 
 interface StackedValue {
     measureName: string;
+    /** Query name of the bound measure; null for values the visual generates */
+    queryName: string | null;
     value: number;
+    highlight: number | null;
+    format: string;
     color: string;
+    startY: number;
+    endY: number;
+    selectionId: ISelectionId;
+}
+
+interface TooltipValue {
+    displayName: string;
+    value: PrimitiveValue;
+    format: string;
 }
 
 interface BarData {
+    /** Stable identity across updates, used to key the rendered shapes */
+    key: string;
     category: string;
     barType: BarType;
     sequence: number;
+    /** Optional zone title from the Zone column */
+    zone: string;
+    /** Index of the zone the bar belongs to; each zone has its own running total */
+    zoneIndex: number;
+    /** Fill from the Data Colors card or fx conditional formatting, overriding the bar type color */
+    color: string | null;
     stackedValues: StackedValue[];
+    tooltipValues: TooltipValue[];
     totalValue: number;
+    highlightValue: number | null;
+    /** Value of the Comparison measures, read like the bar's value */
+    comparisonValue: number | null;
+    /** The comparison scenario's own waterfall bar, from the layout */
+    comparison: ComparisonBar | null;
+    /** Value of the Target measure: a change for steps, like the bar's value */
+    target: number | null;
+    /** Target marker on the value axis and value minus target, from the layout */
+    targetY: number | null;
+    variance: number | null;
+    startY: number;
+    endY: number;
+    /** Offset of the bar on the category axis (x when vertical, y when horizontal) */
+    xPosition: number;
+    /** Offset of the category slot, which also holds the comparison bar */
+    slotPosition: number;
+    /** Values of the outer hierarchy levels, outermost first (empty for a flat category) */
+    parents: string[];
+    /** Row of the data view the bar comes from */
+    sourceIndex: number;
+    /** True for subtotals inserted from the category hierarchy */
+    isGenerated: boolean;
+    /** A total drawn at its own value, like the automatic bridge's Closing bar */
+    ownValue?: boolean;
+    selectionId: ISelectionId;
+}
+
+/**
+ * One measure in the legend; hidden measures are left out of every bar
+ */
+interface LegendItem {
+    /** Query name, which survives renames */
+    key: string;
+    displayName: string;
+    color: string;
+    hidden: boolean;
+}
+
+interface LegendEntry {
+    item: LegendItem;
+    /** Display name, truncated to the space available */
+    text: string;
+    /** Offset of the entry's swatch center from the legend origin */
+    x: number;
+    y: number;
+}
+
+interface LegendLayout {
+    position: string;
+    /** Space reserved on the legend's side of the plot */
+    size: number;
+    title: string | null;
+    entries: LegendEntry[];
+}
+
+/**
+ * A value or segment label waiting for the layout pass, keyed by bar and measure
+ */
+interface BarLabel {
+    key: string;
+    candidate: LabelCandidate;
+}
+
+interface PlacedBarLabel extends PlacedLabel {
+    key: string;
+}
+
+/**
+ * One drawn shape of a bar: the whole bar, or one stacked segment
+ */
+interface SegmentDatum {
+    /** Unique within the bar: the measure name, or "bar" for the whole bar */
+    key: string;
+    bar: BarData;
+    stack: StackedValue | null;
+    from: number;
+    to: number;
+    rect: SceneRect;
+    fill: string;
+    stroke: string | null;
+    strokeWidth: number | null;
+    patternId: string | null;
+    highlightRatio: number | null;
+}
+
+interface ComparisonBar {
     startY: number;
     endY: number;
     xPosition: number;
 }
 
+/**
+ * A labeled line across the plot, from a Reference Lines measure or the constant setting
+ */
+interface ReferenceLine {
+    label: string;
+    value: number;
+}
+
+interface CategoryLabelDatum {
+    key: string;
+    category: string;
+    lines: string[];
+    x: number;
+    y: number;
+    color: string;
+}
+
+interface CategoryLabelLayout {
+    lines: string[][];
+    rotation: number;
+    /** How far the labels reach below their baseline */
+    extent: number;
+}
+
+/**
+ * Persistent groups, in paint order. Joined layers keep their shapes across
+ * updates; the others are emptied and redrawn each time.
+ */
+interface ChartLayers {
+    defs: SVGDefsElement;
+    /** Value axis and baseline */
+    back: SVGGElement;
+    /** Everything placed along the category axis, moved as one when the bars scroll */
+    scroll: SVGGElement;
+    /** Zone separators and titles */
+    zones: SVGGElement;
+    /** Comparison bars, behind the main bars */
+    comparison: SVGGElement;
+    bars: SVGGElement;
+    /** Target markers, over the bars and under their labels */
+    targets: SVGGElement;
+    labels: SVGGElement;
+    connectors: SVGGElement;
+    categories: SVGGElement;
+    /** Step percentages and delta bracket */
+    annotations: SVGGElement;
+    /** Reference lines, legend, notices and the scrollbar */
+    front: SVGGElement;
+}
+
+type ChartTransition = Transition<BaseType, unknown, null, undefined>;
+
+interface SelectableShape {
+    element: SVGElement;
+    selectionId: ISelectionId;
+    barSelectionId: ISelectionId;
+}
+
 // --- Visual Class ---
 
 export class Visual implements IVisual {
     private target: HTMLElement;
     private svgContainer: SVGSVGElement;
+    private tableView: HTMLDivElement;
+    private toolbar: HTMLDivElement;
+    /** The table view replaces the chart until toggled back; not persisted */
+    private showingTable: boolean;
+    /** The host allows downloads: ExportContent privilege granted and export enabled for the tenant */
+    private exportAllowed: boolean;
     private formattingSettings: VisualFormattingSettingsModel;
     private formattingSettingsService: FormattingSettingsService;
     private host: IVisualHost;
+    private events: IVisualEventService;
+    private layers: ChartLayers | null;
     private bars: BarData[];
+    private selectionManager: ISelectionManager;
+    private selectableShapes: SelectableShape[];
+    private focusableShapes: SVGElement[];
+    private focusIndex: number;
+    private hasHighlights: boolean;
+    private truncationMessages: string[];
+    private legendItems: LegendItem[];
+    private referenceLines: ReferenceLine[];
+    /** Scenario name for the comparison bars, or null without a Comparison measure */
+    private comparisonName: string | null;
+    private legendLayout: LegendLayout | null;
+    private layout: WaterfallLayout | null;
+    /** What renderChart draws: geometry and resolved styles, shared with the static SVG */
+    private scene: WaterfallScene | null;
+    private validationIssues: ValidationIssue[];
+    /** Opening and Closing are bound: the bar types and steps are generated from the drivers */
+    private isAutoBridge: boolean;
+    /** Change the drivers leave unexplained when the Unexplained step is turned off */
+    private hiddenGap: number;
+    private isAuthoring: boolean;
+    private diagnosticsExpanded: boolean;
+    /** How many compact breakpoints the tile is below; 0 draws everything */
+    private compactLevel: number;
+    /** How far the bars are scrolled, from 0 at the first bar to 1 at the last */
+    private scrollFraction: number;
+    private formatters: Map<string, IValueFormatter>;
+    private primaryFormat: string;
+    private autoDisplayUnitValue: number;
+    private localizationManager: ILocalizationManager;
+    /** Right-to-left locale: the category axis runs right to left and labels anchor to match */
+    private rightToLeft: boolean;
 
     constructor(options: VisualConstructorOptions) {
-        this.formattingSettingsService = new FormattingSettingsService();
         this.target = options.element;
         this.host = options.host;
+        this.localizationManager = options.host.createLocalizationManager();
+        this.formattingSettingsService = new FormattingSettingsService(this.localizationManager);
+        this.rightToLeft = RTL_LANGUAGES.indexOf((this.host.locale || "").split("-")[0].toLowerCase()) >= 0;
+        this.events = options.host.eventService;
+        this.layers = null;
         this.bars = [];
+        this.selectableShapes = [];
+        this.focusableShapes = [];
+        this.focusIndex = 0;
+        this.hasHighlights = false;
+        this.truncationMessages = [];
+        this.legendItems = [];
+        this.referenceLines = [];
+        this.comparisonName = null;
+        this.legendLayout = null;
+        this.layout = null;
+        this.scene = null;
+        this.validationIssues = [];
+        this.isAutoBridge = false;
+        this.hiddenGap = 0;
+        this.isAuthoring = false;
+        this.diagnosticsExpanded = false;
+        this.compactLevel = 0;
+        this.scrollFraction = 0;
+        this.formatters = new Map();
+        this.primaryFormat = undefined;
+        this.autoDisplayUnitValue = 0;
+        this.showingTable = false;
+        this.exportAllowed = false;
+        this.selectionManager = this.host.createSelectionManager();
 
         // Create SVG container
         const svgNS = "http://www.w3.org/2000/svg";
         this.svgContainer = document.createElementNS(svgNS, "svg") as SVGSVGElement;
         this.svgContainer.setAttribute("class", "hybrid-waterfall-chart");
+        this.svgContainer.setAttribute("role", "listbox");
+        this.svgContainer.setAttribute("aria-multiselectable", "true");
+        this.svgContainer.setAttribute("aria-label", this.localize("Visual_WaterfallChart"));
         this.target.appendChild(this.svgContainer);
+
+        // Table view of the computed bridge, and the buttons that switch to it and export it
+        this.tableView = document.createElement("div");
+        this.tableView.className = "bridge-table-view";
+        this.tableView.hidden = true;
+        this.target.appendChild(this.tableView);
+        this.toolbar = document.createElement("div");
+        this.toolbar.className = "bridge-toolbar";
+        this.toolbar.setAttribute("role", "toolbar");
+        this.toolbar.hidden = true;
+        this.target.appendChild(this.toolbar);
+
+        // Without a status the export button stays hidden
+        this.host.downloadService?.exportStatus()
+            .then(status => {
+                this.exportAllowed = status === powerbi.PrivilegeStatus.Allowed;
+                this.renderBridgeControls();
+            })
+            .catch(() => {
+                this.exportAllowed = false;
+            });
+
+        // Wheel scrolls the bars when they overflow: sideways, shift with the wheel, or the wheel alone when horizontal
+        this.svgContainer.addEventListener("wheel", (event: WheelEvent) => {
+            const overflow = this.getScrollOverflow();
+            const delta = this.isHorizontal() ? event.deltaY : event.deltaX || (event.shiftKey ? event.deltaY : 0);
+            if (overflow <= 0 || !delta) {
+                return;
+            }
+            const before = this.scrollFraction;
+            this.setScrollFraction(before + (this.isRightToLeft() ? -delta : delta) / overflow);
+            if (this.scrollFraction !== before) {
+                event.preventDefault();
+            }
+        }, { passive: false });
+
+        // Background click clears the selection
+        this.svgContainer.addEventListener("click", () => {
+            this.selectionManager.clear().then(() => this.applySelection([]));
+        });
+
+        // Selection restored from bookmarks
+        this.selectionManager.registerOnSelectCallback((ids: ISelectionId[]) => {
+            this.applySelection(ids);
+        });
     }
 
     public update(options: VisualUpdateOptions): void {
+        this.events.renderingStarted(options);
+        const reportFailure = (error: unknown): void => {
+            this.events.renderingFailed(options, error instanceof Error ? error.message : String(error));
+        };
+        try {
+            this.updateChart(options)
+                .then(rendered => {
+                    if (rendered) {
+                        this.events.renderingFinished(options);
+                    }
+                })
+                .catch(reportFailure);
+        } catch (error) {
+            reportFailure(error);
+        }
+    }
+
+    /**
+     * Resolves once the chart has rendered, transitions included: true when
+     * something was drawn, false when it only asked the host for more data
+     */
+    private updateChart(options: VisualUpdateOptions): Promise<boolean> {
         // Populate formatting settings
         this.formattingSettings = this.formattingSettingsService.populateFormattingSettingsModel(
             VisualFormattingSettingsModel,
             options.dataViews?.[0]
         );
+        this.formattingSettings.migrateLegacyPatterns(options.dataViews?.[0]?.metadata.objects);
+        this.formattingSettings.localizePlaceholders(this.localizationManager);
+
+        // Diagnostics are for report authors; readers never see them
+        this.isAuthoring = options.viewMode === powerbi.ViewMode.Edit || options.viewMode === powerbi.ViewMode.InFocusEdit;
 
         const dataView = options.dataViews?.[0];
-        if (!dataView || !dataView.categorical) {
-            this.renderEmptyState(options.viewport.width, options.viewport.height);
-            return;
+        const missingRoles = this.getMissingRoles(dataView);
+        if (!dataView || !dataView.categorical || missingRoles.length > 0) {
+            this.bars = [];
+            this.renderBridgeControls();
+            this.renderLandingPage(options.viewport.width, options.viewport.height, missingRoles);
+            return Promise.resolve(true);
+        }
+
+        // Load every data window before computing totals; the host aggregates segments
+        this.truncationMessages = [];
+        if (dataView.metadata.segment) {
+            if (this.host.fetchMoreData(true)) {
+                return Promise.resolve(false);
+            }
+            this.truncationMessages.push(this.localize("Visual_Message_DataLimit"));
         }
 
         // Parse data
         this.bars = this.parseData(dataView);
 
         if (this.bars.length === 0) {
-            this.renderEmptyState(options.viewport.width, options.viewport.height);
-            return;
+            this.renderBridgeControls();
+            this.renderLandingPage(options.viewport.width, options.viewport.height, missingRoles);
+            return Promise.resolve(true);
         }
 
-        // Compute positions
+        // Compute positions, around the space the legend takes
+        this.compactLevel = this.getCompactLevel(options.viewport.width, options.viewport.height);
+        this.legendLayout = this.layoutLegend(options.viewport.width, options.viewport.height);
         this.computeBarPositions(options.viewport.width, options.viewport.height);
+        this.validationIssues = this.validateData(dataView, this.bars);
+        this.renderBridgeControls();
 
         // Render chart
-        this.renderChart(options.viewport.width, options.viewport.height);
+        return this.renderChart(options.viewport.width, options.viewport.height).then(() => true);
     }
 
     // --- Data Parsing ---
 
     private parseData(dataView: DataView): BarData[] {
         const categorical = dataView.categorical;
-        if (!categorical || !categorical.categories || categorical.categories.length < 2) {
+        if (!categorical || !categorical.categories) {
+            return [];
+        }
+
+        // A hierarchy expanded in the Category role arrives as one column per level, outermost first
+        const categoryColumns = categorical.categories.filter(col => col.source.roles && col.source.roles["category"]);
+        const categoryColumn = categoryColumns.length > 0 ? categoryColumns[categoryColumns.length - 1] : null;
+        const parentColumns = categoryColumns.slice(0, -1);
+        const barTypeColumn = this.findCategoryColumn(categorical.categories, "barType");
+        const sequenceColumn = this.findCategoryColumn(categorical.categories, "sequence");
+        const zoneColumn = this.findCategoryColumn(categorical.categories, "zone");
+        const allValueColumns = categorical.values || [];
+
+        // Opening and Closing together switch to the automatic bridge: every row is a driver step
+        const openingColumn = allValueColumns.find(col => col.source.roles && col.source.roles["opening"]) || null;
+        const closingColumn = allValueColumns.find(col => col.source.roles && col.source.roles["closing"]) || null;
+        this.isAutoBridge = !!openingColumn && !!closingColumn;
+        if (!categoryColumn || (!barTypeColumn && !this.isAutoBridge)) {
             return [];
         }
 
-        const categoryColumn = categorical.categories[0];
-        const barTypeColumn = categorical.categories[1];
-        const sequenceColumn = categorical.categories.length > 2 ? categorical.categories[2] : null;
-        const valueColumns = categorical.values || [];
+        // Measures in the Tooltips role are shown on hover only, never stacked
+        const valueColumns = allValueColumns.filter(col => !col.source.roles || col.source.roles["values"]);
+        const tooltipColumns = allValueColumns.filter(col => col.source.roles && col.source.roles["tooltips"]);
+        const targetColumn = allValueColumns.find(col => col.source.roles && col.source.roles["target"]) || null;
+        const comparisonColumns = this.formattingSettings.comparison.show.value
+            ? allValueColumns.filter(col => col.source.roles && col.source.roles["comparison"])
+            : [];
+        this.comparisonName = comparisonColumns.length > 0
+            ? this.formattingSettings.comparison.label.value || comparisonColumns.map(col => col.source.displayName).join(" + ")
+            : null;
+        this.referenceLines = this.readReferenceLines(allValueColumns);
+        this.hasHighlights = valueColumns.some(col => !!col.highlights);
+        this.primaryFormat = valueColumns.length > 0
+            ? valueFormatter.getFormatStringByColumn(valueColumns[0].source)
+            : this.isAutoBridge ? valueFormatter.getFormatStringByColumn(closingColumn.source) : undefined;
 
         const bars: BarData[] = [];
         const colorPalette = this.host.colorPalette;
         const defaultColor = this.formattingSettings.colorSettings.defaultBarColor.value.value;
 
+        // Measure colors persist by query name, so theme changes and renames keep them
+        const measureColors = valueColumns.map((valueCol, v) => {
+            const measureName = valueCol.source.displayName || `Value ${v + 1}`;
+            const paletteColor = colorPalette.getColor(measureName).value || defaultColor;
+            return dataViewObjects.getFillColor(valueCol.source.objects, DATA_COLOR_PROPERTY, paletteColor);
+        });
+
+        // Measures toggled off in the legend drop out of every bar, so running totals,
+        // subtotals and totals are recomputed from the visible measures only
+        const hiddenMeasures = this.readHiddenMeasures(dataView);
+        this.legendItems = valueColumns.map((valueCol, v): LegendItem => ({
+            key: valueCol.source.queryName,
+            displayName: valueCol.source.displayName || `Value ${v + 1}`,
+            color: measureColors[v],
+            hidden: hiddenMeasures.has(valueCol.source.queryName)
+        }));
+
         for (let i = 0; i < categoryColumn.values.length; i++) {
             const category = String(categoryColumn.values[i] || "");
-            const barTypeRaw = String(barTypeColumn.values[i] || "step").toLowerCase();
-            const sequence = sequenceColumn ? Number(sequenceColumn.values[i]) || i : i;
+            const parsedBarType = this.isAutoBridge ? "step" : parseBarType(barTypeColumn.values[i]);
+            const sequence = (sequenceColumn ? parseSequence(sequenceColumn.values[i]) : null) ?? i;
+
+            // A new zone restarts the running total, which would break the automatic bridge
+            const zone = zoneColumn && !this.isAutoBridge ? String(zoneColumn.values[i] ?? "") : "";
 
-            // Map bar type
-            let barType: BarType = "step";
-            if (barTypeRaw === "subtotal") barType = "subtotal";
-            else if (barTypeRaw === "total") barType = "total";
-            else if (barTypeRaw === "bar") barType = "bar";
+            // Unknown bar types draw as steps; validateData reports them
+            const barType: BarType = parsedBarType || "step";
 
             // Collect stacked values
             const stackedValues: StackedValue[] = [];
             let totalValue = 0;
+            let highlightValue: number | null = this.hasHighlights ? 0 : null;
 
             for (let v = 0; v < valueColumns.length; v++) {
+                if (this.legendItems[v].hidden) {
+                    continue;
+                }
                 const valueCol = valueColumns[v] as DataViewValueColumn;
                 const val = Number(valueCol.values[i]) || 0;
                 if (val !== 0) {
+                    // Highlights only drive rendering; positions keep using full values
+                    const highlight = this.hasHighlights ? Number(valueCol.highlights?.[i]) || 0 : null;
                     const measureName = valueCol.source.displayName || `Value ${v + 1}`;
-                    const color = colorPalette.getColor(measureName).value || defaultColor;
+                    const color = measureColors[v];
+                    const selectionId = this.createRowSelectionId(categoryColumns, i, valueCol.source.queryName);
                     stackedValues.push({
                         measureName,
+                        queryName: valueCol.source.queryName,
                         value: val,
-                        color
+                        highlight,
+                        format: valueFormatter.getFormatStringByColumn(valueCol.source),
+                        color,
+                        startY: 0,
+                        endY: 0,
+                        selectionId
                     });
                     totalValue += val;
+                    if (highlight !== null) {
+                        highlightValue += highlight;
+                    }
+                }
+            }
+
+            // Without Values measures, a driver's step is its own change from opening to closing
+            if (this.isAutoBridge && valueColumns.length === 0) {
+                const change = (Number(closingColumn.values[i]) || 0) - (Number(openingColumn.values[i]) || 0);
+                if (change !== 0) {
+                    stackedValues.push({
+                        measureName: this.localize("Visual_Change"),
+                        queryName: null,
+                        value: change,
+                        highlight: null,
+                        format: this.primaryFormat,
+                        color: defaultColor,
+                        startY: 0,
+                        endY: 0,
+                        selectionId: this.createRowSelectionId(categoryColumns, i)
+                    });
+                    totalValue += change;
                 }
             }
 
+            const targetRaw = targetColumn ? targetColumn.values[i] : null;
+            const target = targetRaw === null || targetRaw === undefined || targetRaw === "" || !isFinite(Number(targetRaw))
+                ? null
+                : Number(targetRaw);
+
+            const comparisonValue = comparisonColumns.length > 0
+                ? comparisonColumns.reduce((sum, col) => sum + (Number(col.values[i]) || 0), 0)
+                : null;
+
+            const tooltipValues: TooltipValue[] = tooltipColumns.map(col => ({
+                displayName: col.source.displayName,
+                value: col.values[i],
+                format: valueFormatter.getFormatStringByColumn(col.source)
+            }));
+
             bars.push({
+                key: "",
                 category,
                 barType,
                 sequence,
+                zone,
+                zoneIndex: 0,
+                color: this.getRowColor(categoryColumn.objects?.[i], barType, valueColumns.length === 1),
                 stackedValues,
+                tooltipValues,
                 totalValue,
+                highlightValue,
+                comparisonValue,
+                comparison: null,
+                target,
+                targetY: null,
+                variance: null,
                 startY: 0,
                 endY: 0,
-                xPosition: 0
+                xPosition: 0,
+                slotPosition: 0,
+                parents: parentColumns.map(col => String(col.values[i] ?? "")),
+                sourceIndex: i,
+                isGenerated: false,
+                selectionId: this.createRowSelectionId(categoryColumns, i)
             });
         }
 
         // Sort bars by sequence
         bars.sort((a, b) => a.sequence - b.sequence);
+        if (this.isAutoBridge) {
+            const mode = String(this.formattingSettings.autoBridge.sortDrivers.value.value) as DriverSort;
+            bars.splice(0, bars.length, ...sortDrivers(bars, mode, this.host.locale));
+        }
+        if (parentColumns.length > 0 && this.formattingSettings.chartSettings.autoSubtotals.value) {
+            this.insertHierarchySubtotals(bars, parentColumns);
+        }
+        this.hiddenGap = 0;
+        if (this.isAutoBridge) {
+            this.addBridgeEnds(bars, openingColumn, closingColumn);
+        }
+        this.foldSmallSteps(bars);
+        this.assignZones(bars);
+        this.assignBarKeys(bars);
+
+        this.formattingSettings.populateDataColors(valueColumns.length === 1
+            ? bars.filter(bar => !!bar.selectionId && !bar.isGenerated).map(bar => ({
+                displayName: bar.category,
+                color: this.getBarStyle(bar).color,
+                selector: bar.selectionId.getSelector()
+            }))
+            : valueColumns.map((valueCol, v): DataColorItem => ({
+                displayName: valueCol.source.displayName || `Value ${v + 1}`,
+                color: measureColors[v],
+                selector: { metadata: valueCol.source.queryName }
+            })));
 
         return bars;
     }
 
-    // --- Position Calculation ---
+    /**
+     * Explicit fill for one row: its Data Colors entry (single-measure charts
+     * only), else the fx rule result for its bar type color, else none.
+     */
+    private getRowColor(objects: powerbi.DataViewObjects | undefined, barType: BarType, singleMeasure: boolean): string | null {
+        if (!objects) {
+            return null;
+        }
 
-    private computeBarPositions(viewportWidth: number, viewportHeight: number): void {
+        const categoryColor = singleMeasure ? dataViewObjects.getFillColor(objects, DATA_COLOR_PROPERTY) : undefined;
+        if (categoryColor) {
+            return categoryColor;
+        }
+
+        const propertyName = barType === "subtotal" ? "subtotalColor"
+            : barType === "total" ? "totalColor"
+            : "defaultBarColor";
+        return dataViewObjects.getFillColor(objects, { objectName: "colorSettings", propertyName }) || null;
+    }
+
+    private createRowSelectionId(categoryColumns: DataViewCategoryColumn[], index: number, measureQueryName?: string): ISelectionId {
+        const builder = this.host.createSelectionIdBuilder();
+        for (const column of categoryColumns) {
+            builder.withCategory(column, index);
+        }
+        if (measureQueryName) {
+            builder.withMeasure(measureQueryName);
+        }
+        return builder.createSelectionId();
+    }
+
+    /**
+     * Inserts a subtotal after every parent group of an expanded hierarchy.
+     * The subtotal carries no values of its own: its height comes from the
+     * running total in computeBarPositions.
+     */
+    private insertHierarchySubtotals(bars: BarData[], parentColumns: DataViewCategoryColumn[]): void {
+        const result = insertHierarchySubtotals(bars, parentColumns.length, (previous, level): BarData => ({
+            key: "",
+            category: previous.parents[level],
+            barType: "subtotal",
+            sequence: previous.sequence,
+            zone: previous.zone,
+            zoneIndex: 0,
+            color: null,
+            stackedValues: [],
+            tooltipValues: [],
+            totalValue: 0,
+            highlightValue: null,
+            comparisonValue: null,
+            comparison: null,
+            target: null,
+            targetY: null,
+            variance: null,
+            startY: 0,
+            endY: 0,
+            xPosition: 0,
+            slotPosition: 0,
+            parents: previous.parents.slice(0, level),
+            sourceIndex: previous.sourceIndex,
+            isGenerated: true,
+            selectionId: this.createRowSelectionId(parentColumns.slice(0, level + 1), previous.sourceIndex)
+        }));
+        bars.splice(0, bars.length, ...result);
+    }
+
+    /**
+     * Keeps the largest Top N steps and folds the others into one "Others"
+     * step per run of consecutive steps (see foldSmallSteps in the layout)
+     */
+    private foldSmallSteps(bars: BarData[]): void {
         const chartSettings = this.formattingSettings.chartSettings;
-        const margin = { left: 50, right: 20 };
+        const othersLabel = chartSettings.othersLabel.value || this.localize("Visual_Others");
+        const fold = foldSmallSteps(bars, chartSettings.topNSteps.value, folded => this.createOthersBar(folded, othersLabel));
+        if (fold.kept === fold.steps) {
+            return;
+        }
+
+        this.truncationMessages.push(this.localize("Visual_Message_TopSteps", fold.kept, fold.steps, fold.steps - fold.kept, othersLabel));
+        bars.splice(0, bars.length, ...fold.bars);
+    }
 
-        // Calculate available width and dynamic bar dimensions
-        const availableWidth = viewportWidth - margin.left - margin.right;
-        const numBars = this.bars.length;
+    private createOthersBar(folded: BarData[], label: string): BarData {
+        const sums = sumFoldedSteps(folded);
+        const last = folded[folded.length - 1];
+        return {
+            key: "",
+            category: label,
+            barType: "step",
+            sequence: last.sequence,
+            zone: last.zone,
+            zoneIndex: 0,
+            color: null,
+            stackedValues: sums.stackedValues.map(stack => ({ ...stack, selectionId: null })),
+            tooltipValues: [{ displayName: this.localize("Visual_FoldedCategories"), value: folded.length, format: "0" }],
+            totalValue: sums.totalValue,
+            highlightValue: sums.highlightValue,
+            comparisonValue: sums.comparisonValue,
+            comparison: null,
+            target: sums.target,
+            targetY: null,
+            variance: null,
+            startY: 0,
+            endY: 0,
+            xPosition: 0,
+            slotPosition: 0,
+            parents: last.parents,
+            sourceIndex: last.sourceIndex,
+            isGenerated: true,
+            // Stands for many categories, so it does not cross-filter
+            selectionId: null
+        };
+    }
 
-        // Calculate bar width and gap to fill the available space
-        // Gap is proportional to bar width (approximately barGap.value / barWidth.value ratio)
-        const gapRatio = chartSettings.barGap.value / chartSettings.barWidth.value;
-        const totalUnits = numBars + (numBars - 1) * gapRatio; // Each bar = 1 unit, each gap = gapRatio units
-        const dynamicBarWidth = Math.min(availableWidth / totalUnits, chartSettings.barWidth.value * 2); // Cap at 2x the setting
-        const dynamicBarGap = dynamicBarWidth * gapRatio;
+    // --- Automatic Bridge ---
+
+    /**
+     * Wraps the driver steps in the opening and closing bars, with an
+     * Unexplained step for whatever change the drivers leave (see
+     * addBridgeEnds in the layout). Opening and closing are the sums of their
+     * measures over the driver rows.
+     */
+    private addBridgeEnds(bars: BarData[], openingColumn: DataViewValueColumn, closingColumn: DataViewValueColumn): void {
+        const autoBridge = this.formattingSettings.autoBridge;
+        const sum = (column: DataViewValueColumn): number =>
+            column.values.reduce<number>((total, value) => total + (Number(value) || 0), 0);
+        const labels: Record<BridgeBarKind, string> = {
+            opening: autoBridge.openingLabel.value || openingColumn.source.displayName,
+            unexplained: autoBridge.unexplainedLabel.value || this.localize("Visual_Unexplained"),
+            closing: autoBridge.closingLabel.value || closingColumn.source.displayName
+        };
+        const barTypes: Record<BridgeBarKind, BarType> = { opening: "start", unexplained: "step", closing: "total" };
 
-        // Compute X positions
-        let currentX = margin.left;
-        for (const bar of this.bars) {
-            bar.xPosition = currentX;
-            currentX += dynamicBarWidth + dynamicBarGap;
+        const bridge = addBridgeEnds(bars, sum(openingColumn), sum(closingColumn), autoBridge.showUnexplained.value,
+            (kind, value) => this.createBridgeBar(labels[kind], barTypes[kind], value, kind === "opening" ? openingColumn : closingColumn));
+        this.hiddenGap = bridge.hiddenGap;
+        bars.splice(0, bars.length, ...bridge.bars);
+    }
+
+    /**
+     * Opening, Unexplained or Closing bar of the automatic bridge. The closing
+     * total stands at the Closing measure itself, whether or not the drivers
+     * reach it, so it has no segment of its own.
+     */
+    private createBridgeBar(category: string, barType: BarType, value: number, column: DataViewValueColumn): BarData {
+        const carriesValue = barType !== "total" && value !== 0;
+        return {
+            key: "",
+            category,
+            barType,
+            sequence: 0,
+            zone: "",
+            zoneIndex: 0,
+            color: null,
+            stackedValues: carriesValue ? [{
+                measureName: category,
+                queryName: null,
+                value,
+                highlight: null,
+                format: valueFormatter.getFormatStringByColumn(column.source),
+                color: this.formattingSettings.colorSettings.defaultBarColor.value.value,
+                startY: 0,
+                endY: 0,
+                selectionId: null
+            }] : [],
+            tooltipValues: [],
+            totalValue: value,
+            highlightValue: null,
+            comparisonValue: null,
+            comparison: null,
+            target: null,
+            targetY: null,
+            variance: null,
+            startY: 0,
+            endY: 0,
+            xPosition: 0,
+            slotPosition: 0,
+            parents: [],
+            sourceIndex: 0,
+            isGenerated: true,
+            ownValue: barType === "total",
+            selectionId: null
+        };
+    }
+
+    /**
+     * Keys a bar by its hierarchy path and kind, so a category keeps its shapes
+     * across slicer changes. Repeated paths are numbered in order.
+     */
+    private assignBarKeys(bars: BarData[]): void {
+        const seen = new Map<string, number>();
+        for (const bar of bars) {
+            const base = this.getBarIdentity(bar);
+            const count = seen.get(base) || 0;
+            seen.set(base, count + 1);
+            bar.key = count === 0 ? base : `${base}\u001F${count}`;
         }
+    }
 
-        // Store computed values for rendering
-        (this as any)._computedBarWidth = dynamicBarWidth;
-        (this as any)._computedBarGap = dynamicBarGap;
+    /**
+     * Zone, hierarchy path, category and kind: what tells one bar from another
+     */
+    private getBarIdentity(bar: BarData): string {
+        const kind = bar.isGenerated ? `${bar.barType}*` : bar.barType === "bar" ? "bar" : "waterfall";
+        return [bar.zone, ...bar.parents, bar.category, kind].join("\u001F");
+    }
 
-        // Compute Y positions (waterfall logic)
-        let runningTotal = 0;
-        let lastWaterfallEnd = 0;
+    private readHiddenMeasures(dataView: DataView): Set<string> {
+        const raw = dataViewObjects.getValue<string>(dataView.metadata.objects, HIDDEN_MEASURES_PROPERTY, "[]");
+        try {
+            const parsed = JSON.parse(raw);
+            return new Set(Array.isArray(parsed) ? parsed.map(String) : []);
+        } catch {
+            return new Set();
+        }
+    }
 
-        for (const bar of this.bars) {
-            if (bar.barType === "step") {
-                bar.startY = runningTotal;
-                bar.endY = runningTotal + bar.totalValue;
-                runningTotal = bar.endY;
-                lastWaterfallEnd = bar.endY;
-            } else if (bar.barType === "subtotal") {
-                bar.startY = 0;
-                bar.endY = runningTotal;
-                // Don't update runningTotal for subtotal
-            } else if (bar.barType === "total") {
-                bar.startY = 0;
-                bar.endY = runningTotal;
-                // Total resets context but keeps the value
-            } else if (bar.barType === "bar") {
-                // Normal bar, starts from 0
-                bar.startY = 0;
-                bar.endY = bar.totalValue;
+    /**
+     * One line per Reference Lines measure at its first value (the measure is
+     * usually the same on every row), plus the constant line when one is set
+     */
+    private readReferenceLines(valueColumns: DataViewValueColumn[]): ReferenceLine[] {
+        const settings = this.formattingSettings.referenceLines;
+        if (!settings.show.value) {
+            return [];
+        }
+
+        const lines: ReferenceLine[] = [];
+        for (const col of valueColumns.filter(col => col.source.roles && col.source.roles["referenceLines"])) {
+            const value = col.values.find(v => v !== null && v !== undefined && v !== "" && isFinite(Number(v)));
+            if (value !== undefined) {
+                lines.push({ label: col.source.displayName, value: Number(value) });
             }
         }
+
+        const constantValue = settings.constantValue.value;
+        if (constantValue !== null && constantValue !== undefined && isFinite(constantValue)) {
+            lines.push({ label: settings.constantLabel.value, value: constantValue });
+        }
+        return lines;
     }
 
-    // --- Rendering ---
+    private findCategoryColumn(categories: DataViewCategoryColumn[], role: string): DataViewCategoryColumn | null {
+        return categories.find(col => col.source.roles && col.source.roles[role]) || null;
+    }
 
-    private renderChart(width: number, height: number): void {
-        // Clear previous content
-        while (this.svgContainer.firstChild) {
-            this.svgContainer.removeChild(this.svgContainer.firstChild);
-        }
+    /**
+     * Splits the sorted bars into zones, each with its own running total. A
+     * new zone starts when the Zone value changes; plain bars between
+     * waterfall bars only get separators, and the running total carries past them.
+     */
+    private assignZones(bars: BarData[]): void {
+        const zoneIndexes = getZoneIndexes(bars.map(bar => bar.zone));
+        bars.forEach((bar, i) => bar.zoneIndex = zoneIndexes[i]);
+    }
 
-        this.svgContainer.setAttribute("width", String(width));
-        this.svgContainer.setAttribute("height", String(height));
+    // --- Position Calculation ---
+
+    /**
+     * Runs the headless waterfall layout over the parsed bars and copies the
+     * geometry back onto them. The first pass runs on estimated margins; the
+     * second on margins measured from the labels the first pass produces.
+     */
+    private computeBarPositions(viewportWidth: number, viewportHeight: number): void {
+        const estimate = computeWaterfallLayout(this.getLayoutInput(viewportWidth, viewportHeight, this.getMargins(viewportWidth, viewportHeight)));
+        this.copyLayout(estimate);
+
+        // Tick and value labels format with the display unit of this data
+        this.resetFormatters();
+
+        const input = this.getLayoutInput(viewportWidth, viewportHeight, this.getMargins(viewportWidth, viewportHeight, estimate));
+        this.layout = computeWaterfallLayout(input);
+        this.copyLayout(this.layout);
+        this.scene = buildWaterfallScene(input, this.layout, this.getSceneStyle());
+    }
+
+    private toBarInput(bar: BarData): WaterfallBarInput {
+        return {
+            category: bar.category,
+            barType: bar.barType,
+            value: bar.totalValue,
+            segments: bar.stackedValues.map(stack => ({ value: stack.value, color: stack.color })),
+            zoneIndex: bar.zoneIndex,
+            zone: bar.zone,
+            color: bar.color,
+            target: bar.target,
+            comparison: bar.comparisonValue,
+            ownValue: bar.ownValue
+        };
+    }
+
+    private getLayoutInput(viewportWidth: number, viewportHeight: number, margin: ChartMargin): WaterfallInput {
+        const chartSettings = this.formattingSettings.chartSettings;
+        const yAxisSettings = this.formattingSettings.yAxisSettings;
+        const horizontal = this.isHorizontal();
+
+        return {
+            bars: this.bars.map(bar => this.toBarInput(bar)),
+            settings: {
+                orientation: horizontal ? "horizontal" : "vertical",
+                barWidth: chartSettings.barWidth.value,
+                barGap: chartSettings.barGap.value,
+                minBarWidth: chartSettings.minBarWidth.value,
+                resetAfterTotal: chartSettings.resetAfterTotal.value,
+                comparisonStyle: String(this.formattingSettings.comparison.style.value.value) === "clustered" ? "clustered" : "ghost",
+                rangeMin: yAxisSettings.rangeMin.value,
+                rangeMax: yAxisSettings.rangeMax.value,
+                negativeLabelSpace: this.showValueLabels()
+                    ? (horizontal ? 50 : chartSettings.valueFontSize.value + 6)
+                    : 0,
+                rightToLeft: this.rightToLeft
+            },
+            viewport: { width: viewportWidth, height: viewportHeight },
+            margin,
+            referenceValues: this.referenceLines.map(line => line.value)
+        };
+    }
+
+    private copyLayout(layout: WaterfallLayout): void {
+        layout.bars.forEach((layoutBar, i) => {
+            const bar = this.bars[i];
+            bar.xPosition = layoutBar.position;
+            bar.slotPosition = layoutBar.slotPosition;
+            bar.comparison = layoutBar.comparison && {
+                startY: layoutBar.comparison.startY,
+                endY: layoutBar.comparison.endY,
+                xPosition: layoutBar.comparison.position
+            };
+            bar.startY = layoutBar.startY;
+            bar.endY = layoutBar.endY;
+            bar.targetY = layoutBar.targetY;
+            bar.variance = layoutBar.variance;
+            layoutBar.segments.forEach((segment, s) => {
+                bar.stackedValues[s].startY = segment.startY;
+                bar.stackedValues[s].endY = segment.endY;
+            });
+
+            // Inserted subtotals have no value of their own; they show the running total
+            if (bar.isGenerated && bar.barType === "subtotal") {
+                bar.totalValue = bar.endY;
+            }
+        });
+    }
+
+    /**
+     * Lowest and highest values covered by the drawn bar (segments included)
+     */
+    private getBarExtent(bar: BarData): [number, number] {
+        return getValueExtent(bar.startY, bar.endY, bar.stackedValues.length > 1 ? bar.stackedValues : []);
+    }
+
+    // --- Scene ---
 
+    /**
+     * Format pane settings as the scene's style. Parts the tile is too small
+     * for are switched off here, so the scene only holds what is drawn.
+     */
+    private getSceneStyle(): SceneStyle {
         const chartSettings = this.formattingSettings.chartSettings;
         const colorSettings = this.formattingSettings.colorSettings;
+        const fillStyles = this.formattingSettings.fillStyles;
+        const yAxisSettings = this.formattingSettings.yAxisSettings;
         const axisSettings = this.formattingSettings.axisSettings;
+        const targets = this.formattingSettings.targets;
+        const fillOf = (slice: typeof fillStyles.stepFill): FillStyle => String(slice.value.value) as FillStyle;
+
+        return {
+            increaseColor: colorSettings.increaseColor.value.value,
+            decreaseColor: colorSettings.decreaseColor.value.value,
+            subtotalColor: colorSettings.subtotalColor.value.value,
+            totalColor: colorSettings.totalColor.value.value,
+            defaultColor: colorSettings.defaultBarColor.value.value,
+            fills: {
+                start: fillOf(fillStyles.startFill),
+                step: fillOf(fillStyles.stepFill),
+                subtotal: fillOf(fillStyles.subtotalFill),
+                total: fillOf(fillStyles.totalFill),
+                bar: fillOf(fillStyles.barFill)
+            },
+            patternColor: fillStyles.patternColor.value.value,
+            patternOpacity: fillStyles.patternOpacity.value / 100,
+            patternSpacing: fillStyles.patternSpacing.value,
+            borderColor: fillStyles.borderColor.value.value,
+            borderWidth: fillStyles.borderWidth.value,
+            cornerRadius: fillStyles.cornerRadius.value,
+            comparisonColor: this.formattingSettings.comparison.color.value.value,
+            showTargets: targets.show.value,
+            targetColor: targets.markerColor.value.value,
+            overTargetColor: targets.flagOverTarget.value ? targets.overTargetColor.value.value : null,
+            showConnectors: chartSettings.showConnectors.value && this.fitsTile("connectors"),
+            connectorColor: colorSettings.connectorColor.value.value,
+            baselineColor: "#CCCCCC",
+            separatorColor: colorSettings.separatorColor.value.value,
+            showZoneTitles: chartSettings.showZoneTitles.value && this.fitsTile("titles"),
+            showValueAxis: yAxisSettings.showYAxis.value && this.fitsTile("axes"),
+            valueAxisOnRight: this.isValueAxisOnRight(),
+            axisColor: yAxisSettings.yAxisColor.value.value,
+            axisFontSize: yAxisSettings.yAxisFontSize.value,
+            axisTitle: yAxisSettings.showTitle.value && this.fitsTile("titles") ? yAxisSettings.titleText.value : "",
+            showGridlines: yAxisSettings.showGridlines.value,
+            gridlineColor: yAxisSettings.gridlineColor.value.value,
+            showValues: this.showValueLabels(),
+            textColor: "#333333",
+            fontSize: chartSettings.valueFontSize.value,
+            showCategoryLabels: axisSettings.showXAxis.value && this.fitsTile("axes"),
+            categoryColor: axisSettings.xAxisColor.value.value,
+            categoryFontSize: axisSettings.xAxisFontSize.value,
+            fontFamily: "Segoe UI, sans-serif",
+            highContrast: this.getHighContrastColors(),
+            formatValue: value => this.formatValue(value)
+        };
+    }
 
-        // Use dynamically computed bar width
-        const barWidth = (this as any)._computedBarWidth || chartSettings.barWidth.value;
-        const barGap = (this as any)._computedBarGap || chartSettings.barGap.value;
-        const margin = { top: 30, right: 20, bottom: 60, left: 50 };
-        const chartHeight = height - margin.top - margin.bottom;
+    /**
+     * The bar's fill as the scene resolves it; usable before the scene is built
+     */
+    private getBarStyle(bar: BarData): BarFill {
+        return resolveBarFill(this.toBarInput(bar), bar.variance, this.getSceneStyle());
+    }
 
-        // Find max value for Y scale
-        let maxValue = 0;
-        for (const bar of this.bars) {
-            maxValue = Math.max(maxValue, Math.abs(bar.endY), Math.abs(bar.startY));
+    private appendSceneLine(parent: Element, sceneLine: SceneLine, className: string | null): SVGLineElement {
+        const line = document.createElementNS("http://www.w3.org/2000/svg", "line");
+        if (className) {
+            line.setAttribute("class", className);
+        }
+        line.setAttribute("x1", String(sceneLine.x1));
+        line.setAttribute("y1", String(sceneLine.y1));
+        line.setAttribute("x2", String(sceneLine.x2));
+        line.setAttribute("y2", String(sceneLine.y2));
+        line.setAttribute("stroke", sceneLine.color);
+        line.setAttribute("stroke-width", String(sceneLine.width));
+        if (sceneLine.dash) {
+            line.setAttribute("stroke-dasharray", sceneLine.dash);
+        }
+        parent.appendChild(line);
+        return line;
+    }
+
+    private appendSceneText(parent: Element, sceneText: SceneText, className: string): SVGTextElement {
+        const text = document.createElementNS("http://www.w3.org/2000/svg", "text");
+        text.setAttribute("class", className);
+        text.setAttribute("x", String(sceneText.x));
+        text.setAttribute("y", String(sceneText.y));
+        if (sceneText.dy) {
+            text.setAttribute("dy", sceneText.dy);
         }
-        maxValue = maxValue || 1;
+        if (sceneText.rotation) {
+            text.setAttribute("transform", `rotate(${sceneText.rotation}, ${sceneText.x}, ${sceneText.y})`);
+        }
+        text.setAttribute("text-anchor", sceneText.anchor);
+        text.setAttribute("font-size", String(sceneText.fontSize));
+        text.setAttribute("fill", sceneText.color);
+        text.setAttribute("font-family", this.scene.fontFamily);
+        text.textContent = sceneText.text;
+        parent.appendChild(text);
+        return text;
+    }
+
+    // --- Rendering ---
+
+    private renderChart(width: number, height: number): Promise<void> {
+        // Layers persist across updates; only the static ones are redrawn from scratch
+        const layers = this.ensureLayers();
+        this.clearElement(layers.defs);
+        this.clearElement(layers.back);
+        this.clearElement(layers.zones);
+        this.clearElement(layers.annotations);
+        this.clearElement(layers.front);
+
+        this.selectableShapes = [];
+        this.focusableShapes = [];
+        this.applyThemeColors();
+
+        this.svgContainer.setAttribute("width", String(width));
+        this.svgContainer.setAttribute("height", String(height));
 
-        const yScale = (value: number): number => {
-            return margin.top + chartHeight - (value / maxValue) * chartHeight;
+        // Geometry from the headless layout; positions and styles of what is drawn from its scene
+        const { barWidth, slotWidth, barGap, plot } = this.layout;
+        const valueScale = createValueScale(this.layout);
+        const isInRange = (value: number): boolean => {
+            const [domainMin, domainMax] = valueScale.domain();
+            return value >= domainMin && value <= domainMax;
         };
 
+        // Shared by every joined shape, so they move together and end together
+        const t = select(this.svgContainer)
+            .transition("update")
+            .duration(this.getAnimationDuration()) as ChartTransition;
+
+        this.renderPatterns(layers.defs);
+
+        // Value axis, gridlines and baseline, under the bars
+        this.renderValueAxis();
+        if (this.scene.baseline) {
+            this.appendSceneLine(layers.back, this.scene.baseline, "baseline");
+        }
+
+        // Zone separators and titles
+        this.renderZones();
+
+        // Comparison bars behind the bars and stacked segments
+        this.renderComparisonBars(barWidth, valueScale, t);
+        this.renderBars(barWidth, valueScale, t);
+        this.renderTargets(t);
+
+        // Value and segment labels, placed together once every bar is known
+        const labels: BarLabel[] = [];
+        if (this.showValueLabels()) {
+            this.bars.forEach((bar, i) => this.collectBarLabels(bar, i, barWidth, valueScale, isInRange, labels));
+        }
+        this.renderBarLabels(labels, width, height, t);
+
+        // Connectors (for waterfall) - after bars so they appear on top
+        this.renderConnectors(t);
+
+        // Reference lines, then percentages and delta bracket, positioned from the same bar geometry
+        this.renderReferenceLines(plot, valueScale, isInRange);
+        this.renderAnnotations(barWidth, valueScale);
+
+        // Category axis labels (below the plot, or left of it when horizontal)
+        this.renderCategoryLabels(plot, slotWidth, barGap, height, t);
+
+        this.renderScrollbar(plot, width, height);
+
+        this.renderLegend(width, height);
+        this.renderTruncationWarning(height);
+        this.renderDiagnostics(width, height);
+        this.updateRovingTabIndex();
+
+        // Restore the selection kept by the host across updates
+        this.applySelection(this.selectionManager.getSelectionIds() as ISelectionId[]);
+
+        // An interrupted transition still ends this render
+        return t.end().catch((): void => undefined);
+    }
+
+    /**
+     * Pattern tiles of the scene: dots, diagonal stripes and crosshatch laid
+     * over a bar's own fill
+     */
+    private renderPatterns(defs: SVGDefsElement): void {
         const svgNS = "http://www.w3.org/2000/svg";
+        for (const scenePattern of this.scene.patterns) {
+            const pattern = document.createElementNS(svgNS, "pattern");
+            pattern.setAttribute("id", scenePattern.id);
+            pattern.setAttribute("width", String(scenePattern.size));
+            pattern.setAttribute("height", String(scenePattern.size));
+            pattern.setAttribute("patternUnits", "userSpaceOnUse");
+            if (scenePattern.rotation) {
+                pattern.setAttribute("patternTransform", `rotate(${scenePattern.rotation})`);
+            }
+            for (const circle of scenePattern.circles) {
+                const dot = document.createElementNS(svgNS, "circle");
+                dot.setAttribute("cx", String(circle.cx));
+                dot.setAttribute("cy", String(circle.cy));
+                dot.setAttribute("r", String(circle.r));
+                dot.setAttribute("fill", scenePattern.color);
+                dot.setAttribute("opacity", String(scenePattern.opacity));
+                pattern.appendChild(dot);
+            }
+            for (const line of scenePattern.lines) {
+                this.appendSceneLine(pattern, line, null).setAttribute("opacity", String(scenePattern.opacity));
+            }
+            defs.appendChild(pattern);
+        }
+    }
 
-        // Add pattern definitions
-        const defs = document.createElementNS(svgNS, "defs");
+    /**
+     * Joins one group per bar and, inside it, one group per drawn shape (the
+     * whole bar, or each stacked segment). Shapes are keyed by category and
+     * measure, so the ones that survive an update move instead of being redrawn.
+     */
+    private renderBars(barWidth: number, valueScale: ScaleLinear<number, number>, t: ChartTransition): void {
+        const rectOf = (d: SegmentDatum): SceneRect => d.rect;
+        const collapsedRectOf = (d: SegmentDatum): SceneRect =>
+            this.getBarRect(d.bar.xPosition, barWidth, d.from, d.from, valueScale, 0);
+        const highlightRectOf = (d: SegmentDatum): SceneRect => {
+            const ratio = Math.max(0, Math.min(1, d.highlightRatio || 0));
+            return this.getBarRect(d.bar.xPosition, barWidth, d.from, d.from + (d.to - d.from) * ratio, valueScale, 0);
+        };
+        const radius = this.scene.cornerRadius;
+        const sceneBars = new Map(this.bars.map((bar, i) => [bar, this.scene.bars[i]]));
+
+        const barGroups = select(this.layers.bars)
+            .selectAll<SVGGElement, BarData>("g.bar-group")
+            .data(this.bars, bar => bar.key)
+            .join(
+                enter => enter.append("g"),
+                update => update,
+                exit => exit.classed("bar-group", false).transition(t).attr("opacity", 0).remove()
+            )
+            .attr("class", bar => `bar-group bar-type-${bar.barType}`)
+            .order();
+
+        const segments = barGroups
+            .selectAll<SVGGElement, SegmentDatum>("g.segment")
+            .data(bar => this.getSegments(bar, sceneBars.get(bar)), d => d.key)
+            .join(
+                enter => enter.append("g").attr("class", "segment"),
+                update => update,
+                exit => exit.classed("segment", false).transition(t).attr("opacity", 0).remove()
+            )
+            .order();
+
+        // New shapes grow out of their starting value
+        segments.selectAll<SVGRectElement, SegmentDatum>("rect.bar-body")
+            .data(d => [d])
+            .join(enter => enter.insert("rect", ":first-child")
+                .attr("class", "bar-body")
+                .call(rects => this.setRects(rects, collapsedRectOf)))
+            .attr("fill", d => d.fill)
+            .attr("fill-opacity", d => d.highlightRatio !== null ? 0.4 : null)
+            .attr("stroke", d => d.stroke)
+            .attr("stroke-width", d => d.strokeWidth)
+            .attr("rx", radius)
+            .call(rects => this.transitionRects(rects, t, rectOf));
+
+        segments.selectAll<SVGRectElement, SegmentDatum>("rect.bar-highlight")
+            .data(d => d.highlightRatio !== null ? [d] : [])
+            .join(enter => enter.insert("rect", "rect.bar-pattern")
+                .attr("class", "bar-highlight")
+                .call(rects => this.setRects(rects, collapsedRectOf)))
+            .attr("fill", d => d.fill)
+            .attr("rx", radius)
+            .call(rects => this.transitionRects(rects, t, highlightRectOf));
+
+        segments.selectAll<SVGRectElement, SegmentDatum>("rect.bar-pattern")
+            .data(d => d.patternId ? [d] : [])
+            .join(enter => enter.append("rect")
+                .attr("class", "bar-pattern")
+                .call(rects => this.setRects(rects, collapsedRectOf)))
+            .attr("fill", d => `url(#${d.patternId})`)
+            .attr("rx", radius)
+            .call(rects => this.transitionRects(rects, t, rectOf));
+
+        // Interaction, in bar order so the arrow keys follow the chart
+        segments.each((d, i, nodes) => {
+            const shapes = Array.from(nodes[i].querySelectorAll("rect"));
+            const selectionId = d.stack ? d.stack.selectionId : d.bar.selectionId;
+            const getItems = (): VisualTooltipDataItem[] => this.getTooltipItems(d.bar, d.stack || undefined);
+
+            // The pattern overlay is the topmost shape, so it carries focus and its ring
+            const focusTarget = shapes.find(shape => shape.classList.contains("bar-pattern"))
+                || shapes.find(shape => shape.classList.contains("bar-body"));
+
+            for (const shape of shapes) {
+                this.bindSelection(shape, selectionId, d.bar.selectionId);
+                this.bindTooltip(shape, getItems, selectionId);
+                if (shape !== focusTarget) {
+                    this.unbindKeyboard(shape);
+                }
+            }
+            this.bindKeyboard(focusTarget, this.getAccessibleName(d.bar, d.stack || undefined), selectionId || d.bar.selectionId);
+        });
+    }
 
-        // Dotted pattern for subtotal/total
-        const pattern = document.createElementNS(svgNS, "pattern");
-        pattern.setAttribute("id", "dots-pattern");
-        pattern.setAttribute("width", "6");
-        pattern.setAttribute("height", "6");
-        pattern.setAttribute("patternUnits", "userSpaceOnUse");
-
-        const dot = document.createElementNS(svgNS, "circle");
-        dot.setAttribute("cx", "3");
-        dot.setAttribute("cy", "3");
-        dot.setAttribute("r", "1.5");
-        dot.setAttribute("fill", "#333");
-        dot.setAttribute("opacity", "0.3");
-        pattern.appendChild(dot);
-        defs.appendChild(pattern);
+    /**
+     * Joins the comparison scenario's bars: a translucent ghost peeking out
+     * behind the main bar, or a solid bar beside it when clustered. They share
+     * the main bar's selection and tooltip, but not its keyboard stop.
+     */
+    private renderComparisonBars(barWidth: number, valueScale: ScaleLinear<number, number>, t: ChartTransition): void {
+        const barOf = (d: SceneComparison): BarData => this.bars[d.index];
+        const collapsedRectOf = (d: SceneComparison): SceneRect => {
+            const comparison = barOf(d).comparison;
+            return this.getBarRect(comparison.xPosition, barWidth, comparison.startY, comparison.startY, valueScale, 0);
+        };
 
-        this.svgContainer.appendChild(defs);
+        select(this.layers.comparison)
+            .selectAll<SVGRectElement, SceneComparison>("rect.comparison-bar")
+            .data(this.scene.comparisons, d => barOf(d).key)
+            .join(
+                enter => enter.append("rect")
+                    .attr("class", "comparison-bar")
+                    .call(rects => this.setRects(rects, collapsedRectOf)),
+                update => update,
+                exit => exit.classed("comparison-bar", false).transition(t).attr("opacity", 0).remove()
+            )
+            .attr("fill", d => d.fill)
+            .attr("fill-opacity", d => d.fillOpacity)
+            .attr("stroke", d => d.stroke)
+            .attr("stroke-width", d => d.strokeWidth)
+            .attr("stroke-dasharray", d => d.dash)
+            .attr("rx", this.scene.cornerRadius)
+            .each((d, i, nodes) => {
+                const bar = barOf(d);
+                this.bindSelection(nodes[i], bar.selectionId, bar.selectionId);
+                this.bindTooltip(nodes[i], () => this.getTooltipItems(bar), bar.selectionId);
+            })
+            .call(rects => this.transitionRects(rects, t, d => d.rect));
+    }
 
-        // Baseline
-        const baseline = document.createElementNS(svgNS, "line");
-        baseline.setAttribute("x1", String(margin.left - 10));
-        baseline.setAttribute("x2", String(width - margin.right));
-        baseline.setAttribute("y1", String(yScale(0)));
-        baseline.setAttribute("y2", String(yScale(0)));
-        baseline.setAttribute("stroke", "#CCC");
-        baseline.setAttribute("stroke-width", "1");
-        this.svgContainer.appendChild(baseline);
-
-        // Find separator position (between last waterfall bar and first normal bar)
-        let separatorX = -1;
-        for (let i = 0; i < this.bars.length; i++) {
-            if (this.bars[i].barType === "bar" && i > 0 && this.bars[i - 1].barType !== "bar") {
-                separatorX = this.bars[i].xPosition - barGap / 2;
-                break;
+    /**
+     * Shapes drawn for one bar, as the scene has them: the whole bar, or one per stacked segment
+     */
+    private getSegments(bar: BarData, sceneBar: SceneBar): SegmentDatum[] {
+        return sceneBar.shapes.map((shape): SegmentDatum => {
+            const stack = shape.segment >= 0 ? bar.stackedValues[shape.segment] : null;
+            let highlightRatio: number | null = null;
+            if (stack) {
+                highlightRatio = stack.highlight !== null ? stack.highlight / stack.value : null;
+            } else if (bar.highlightValue !== null) {
+                highlightRatio = bar.totalValue !== 0 ? bar.highlightValue / bar.totalValue : 0;
+            }
+            return {
+                key: stack ? stack.measureName : "bar",
+                bar,
+                stack,
+                from: shape.from,
+                to: shape.to,
+                rect: shape.rect,
+                fill: shape.fill,
+                stroke: shape.stroke,
+                strokeWidth: shape.strokeWidth,
+                patternId: shape.patternId,
+                highlightRatio
+            };
+        });
+    }
+
+    private renderConnectors(t: ChartTransition): void {
+        this.joinBarLines(this.layers.connectors, "connector", this.scene.connectors, t);
+    }
+
+    /**
+     * Joins one marker per bar with a target, a little wider than the bar so
+     * it reads on top of it. Markers of bars over target take the flag color.
+     */
+    private renderTargets(t: ChartTransition): void {
+        this.joinBarLines(this.layers.targets, "target-marker", this.scene.targets, t)
+            .attr("stroke-linecap", "round");
+    }
+
+    /**
+     * Joins scene lines tied to bars, keyed by those bars, so they fade in
+     * and glide along with them
+     */
+    private joinBarLines(
+        layer: SVGGElement,
+        className: string,
+        lines: SceneBarLine[],
+        t: ChartTransition
+    ): Selection<SVGLineElement, SceneBarLine, SVGGElement, unknown> {
+        const keyOf = (d: SceneBarLine): string => d.from === d.to
+            ? this.bars[d.from].key
+            : `${this.bars[d.from].key}\u001E${this.bars[d.to].key}`;
+
+        const joined = select(layer)
+            .selectAll<SVGLineElement, SceneBarLine>(`line.${className}`)
+            .data(lines, keyOf)
+            .join(
+                enter => enter.append("line")
+                    .attr("class", className)
+                    .attr("opacity", 0)
+                    .attr("x1", d => d.x1)
+                    .attr("y1", d => d.y1)
+                    .attr("x2", d => d.x2)
+                    .attr("y2", d => d.y2),
+                update => update,
+                exit => exit.classed(className, false).transition(t).attr("opacity", 0).remove()
+            )
+            .attr("stroke", d => d.color)
+            .attr("stroke-width", d => d.width)
+            .attr("stroke-dasharray", d => d.dash);
+        joined.transition(t)
+            .attr("opacity", 1)
+            .attr("x1", d => d.x1)
+            .attr("y1", d => d.y1)
+            .attr("x2", d => d.x2)
+            .attr("y2", d => d.y2);
+        return joined;
+    }
+
+    /**
+     * Queues a bar's total label (outside its end, else inside with a contrasting
+     * color) and, for stacked bars, one label per segment large enough to hold it.
+     */
+    private collectBarLabels(
+        bar: BarData,
+        index: number,
+        barWidth: number,
+        valueScale: ScaleLinear<number, number>,
+        isInRange: (value: number) => boolean,
+        labels: BarLabel[]
+    ): void {
+        const horizontal = this.isHorizontal();
+        const barCenter = bar.xPosition + barWidth / 2;
+        const stacked = bar.stackedValues.length > 1;
+        const { fill } = this.scene.bars[index];
+        const label = this.scene.valueLabels[index];
+        const fontSize = label.fontSize;
+
+        // Whether a text box fits inside a bar span of the given pixel length
+        const fitsInside = (textWidth: number, textHeight: number, length: number): boolean => horizontal
+            ? textWidth + 4 <= length && textHeight <= barWidth
+            : textWidth + 4 <= barWidth && textHeight + 2 <= length;
+
+        // Hidden when its anchor falls outside a manual value range
+        if (!label.hidden) {
+            const text = label.text;
+            const textWidth = measureTextWidth(text, fontSize);
+            const slots: LabelSlot[] = [];
+
+            // The scene's anchor point, converted to the label's center
+            if (horizontal) {
+                const offset = label.isDecrease ? -textWidth / 2 : textWidth / 2;
+                slots.push({ centerX: label.x + offset, centerY: label.y, color: label.color });
+            } else {
+                slots.push({ centerX: label.x, centerY: label.y - fontSize * 0.32, color: label.color });
+            }
+
+            // Stacked bars keep their inside for the segment labels; outlined bars, and
+            // patterned bars in high contrast mode, have no solid fill to read text against
+            const [extentMin, extentMax] = this.getBarExtent(bar);
+            const length = Math.abs(valueScale(extentMax) - valueScale(extentMin));
+            const solidFill = fill.fillStyle !== "outline" && !(this.isHighContrast() && fill.patternId);
+            if (!stacked && solidFill && fitsInside(textWidth, fontSize, length)) {
+                const [centerX, centerY] = this.orientPoint(barCenter, valueScale((extentMin + extentMax) / 2));
+                slots.push({ centerX, centerY, color: this.getInsideLabelColor(fill.color) });
             }
+
+            // Totals and subtotals win collisions over the steps around them
+            const priority = bar.barType === "total" || bar.barType === "subtotal" ? 3
+                : bar.barType === "start" ? 2 : 1;
+            labels.push({ key: `${bar.key}\u001Evalue`, candidate: { text, fontSize, priority, slots } });
         }
 
-        // Draw separator line
-        if (separatorX > 0) {
-            const separator = document.createElementNS(svgNS, "line");
-            separator.setAttribute("x1", String(separatorX));
-            separator.setAttribute("x2", String(separatorX));
-            separator.setAttribute("y1", String(margin.top));
-            separator.setAttribute("y2", String(height - margin.bottom));
-            separator.setAttribute("stroke", colorSettings.separatorColor.value.value);
-            separator.setAttribute("stroke-width", "2");
-            separator.setAttribute("stroke-dasharray", "6,4");
-            this.svgContainer.appendChild(separator);
+        if (!stacked) {
+            return;
         }
 
-        // Draw bars
-        for (const bar of this.bars) {
-            const barGroup = document.createElementNS(svgNS, "g");
-            barGroup.setAttribute("class", `bar-group bar-type-${bar.barType}`);
-
-            const barTopY = yScale(bar.endY);
-            const barBottomY = yScale(bar.startY);
-            const barHeight = Math.abs(barBottomY - barTopY);
-
-            // Determine bar color and pattern
-            let fillColor = colorSettings.defaultBarColor.value.value;
-            let usePattern = false;
-
-            if (bar.barType === "subtotal") {
-                fillColor = colorSettings.subtotalColor.value.value;
-                usePattern = colorSettings.usePatternForSubtotal.value;
-            } else if (bar.barType === "total") {
-                fillColor = colorSettings.totalColor.value.value;
-                usePattern = colorSettings.usePatternForTotal.value;
-            }
-
-            // Draw stacked segments or single bar
-            if (bar.stackedValues.length > 1 && !usePattern) {
-                // Stacked bar
-                let currentStackY = bar.startY;
-                for (const stack of bar.stackedValues) {
-                    const stackTopY = yScale(currentStackY + stack.value);
-                    const stackBottomY = yScale(currentStackY);
-                    const stackHeight = Math.abs(stackBottomY - stackTopY);
-
-                    const rect = document.createElementNS(svgNS, "rect");
-                    rect.setAttribute("x", String(bar.xPosition));
-                    rect.setAttribute("y", String(Math.min(stackTopY, stackBottomY)));
-                    rect.setAttribute("width", String(barWidth));
-                    rect.setAttribute("height", String(Math.max(stackHeight, 1)));
-                    rect.setAttribute("fill", stack.color);
-                    rect.setAttribute("stroke", "#fff");
-                    rect.setAttribute("stroke-width", "0.5");
-
-                    // Tooltip
-                    const title = document.createElementNS(svgNS, "title");
-                    title.textContent = `${bar.category}\n${stack.measureName}: ${this.formatValue(stack.value)}`;
-                    rect.appendChild(title);
-
-                    barGroup.appendChild(rect);
-                    currentStackY += stack.value;
+        const segmentFontSize = fontSize - 1;
+        for (const stack of bar.stackedValues) {
+            const stackMid = (stack.startY + stack.endY) / 2;
+            if (!isInRange(stackMid)) {
+                continue;
+            }
+
+            const text = this.formatValue(stack.value, stack.format);
+            const length = Math.abs(valueScale(stack.endY) - valueScale(stack.startY));
+            if (!fitsInside(measureTextWidth(text, segmentFontSize), segmentFontSize, length)) {
+                continue;
+            }
+
+            const [centerX, centerY] = this.orientPoint(barCenter, valueScale(stackMid));
+            labels.push({
+                key: `${bar.key}\u001E${stack.measureName}`,
+                candidate: {
+                    text,
+                    fontSize: segmentFontSize,
+                    priority: 0,
+                    slots: [{ centerX, centerY, color: this.getInsideLabelColor(stack.color) }]
                 }
+            });
+        }
+    }
+
+    /**
+     * Places the queued labels without overlaps and joins the ones that found a slot
+     */
+    private renderBarLabels(labels: BarLabel[], width: number, height: number, t: ChartTransition): void {
+        // Scrolled bars keep their labels, so the bounds run the whole length of the bars
+        const overflow = this.getScrollOverflow();
+        const bounds = this.isHorizontal()
+            ? { x: 0, y: 0, width, height: height + overflow }
+            : { x: this.isRightToLeft() ? -overflow : 0, y: 0, width: width + overflow, height };
+        const placed = placeLabels(labels.map(label => label.candidate), bounds)
+            .map((placement, i): PlacedBarLabel => ({ ...placement, key: labels[i].key }))
+            .filter(placement => placement.slot !== null);
+
+        select(this.layers.labels)
+            .selectAll<SVGTextElement, PlacedBarLabel>("text.bar-label")
+            .data(placed, d => d.key)
+            .join(
+                enter => enter.append("text")
+                    .attr("opacity", 0)
+                    .attr("x", d => d.slot.centerX)
+                    .attr("y", d => d.slot.centerY),
+                update => update,
+                exit => exit.classed("bar-label", false).transition(t).attr("opacity", 0).remove()
+            )
+            .attr("class", d => `bar-label ${d.candidate.priority > 0 ? "value-label" : "segment-label"}`)
+            .attr("dy", "0.32em")
+            .attr("text-anchor", "middle")
+            .attr("font-size", d => d.candidate.fontSize)
+            .attr("fill", d => d.slot.color)
+            .attr("font-family", "Segoe UI, sans-serif")
+            .text(d => d.candidate.text)
+            .transition(t)
+            .attr("opacity", 1)
+            .attr("x", d => d.slot.centerX)
+            .attr("y", d => d.slot.centerY);
+    }
+
+    /**
+     * Category labels. Horizontal charts truncate them to the left margin.
+     * Vertical charts with automatic rotation keep them level when they fit
+     * their band, wrap them onto two lines when that suffices, and otherwise
+     * rotate them 45 degrees and truncate to the bottom margin.
+     */
+    private renderCategoryLabels(plot: PlotArea, slotWidth: number, barGap: number, height: number, t: ChartTransition): void {
+        const axisSettings = this.formattingSettings.axisSettings;
+        const svgNS = "http://www.w3.org/2000/svg";
+        const fontSize = axisSettings.xAxisFontSize.value;
+        const horizontal = this.isHorizontal();
+        const labelY = plot.bottom + 15;
+
+        let rotation = 0;
+        let lines: string[][];
+
+        if (horizontal) {
+            const maxWidth = Math.max(plot.left - this.getLegendSpace("left") - 12, 0);
+            lines = this.bars.map(bar => [truncateText(bar.category, fontSize, maxWidth)]);
+        } else {
+            const scrollbarSpace = this.layout.scrollable ? SCROLLBAR_SPACE : 0;
+            const labels = this.layoutCategoryLabels(slotWidth, barGap, height - labelY - this.getLegendSpace("bottom") - scrollbarSpace);
+            rotation = labels.rotation;
+            lines = labels.lines;
+        }
+
+        // Anchored where the scene places them, with the lines fitted here
+        const items = this.scene.categoryLabels.map((label, i): CategoryLabelDatum => ({
+            key: this.bars[i].key,
+            category: label.text,
+            lines: lines[i],
+            x: label.x,
+            y: label.y,
+            color: label.color
+        }));
+
+        // Each label sits in a translated group, so it can glide without its rotation jumping
+        const groups = select(this.layers.categories)
+            .selectAll<SVGGElement, CategoryLabelDatum>("g.category-label")
+            .data(items, d => d.key)
+            .join(
+                enter => enter.append("g")
+                    .attr("class", "category-label")
+                    .attr("opacity", 0)
+                    .attr("transform", d => `translate(${d.x}, ${d.y})`),
+                update => update,
+                exit => exit.classed("category-label", false).transition(t).attr("opacity", 0).remove()
+            );
+
+        groups.each((d, i, nodes) => {
+            const group = nodes[i];
+            this.clearElement(group);
+
+            const label = document.createElementNS(svgNS, "text");
+            label.setAttribute("class", "x-axis-label");
+            label.setAttribute("font-size", String(fontSize));
+            label.setAttribute("fill", d.color);
+            label.setAttribute("font-family", this.scene.fontFamily);
+
+            if (horizontal) {
+                label.setAttribute("dy", "0.32em");
+                label.setAttribute("text-anchor", "end");
+            } else if (rotation > 0) {
+                label.setAttribute("transform", `rotate(${rotation})`);
+                label.setAttribute("text-anchor", "start");
             } else {
-                // Single bar (or subtotal/total with pattern)
-                const rect = document.createElementNS(svgNS, "rect");
-                rect.setAttribute("x", String(bar.xPosition));
-                rect.setAttribute("y", String(Math.min(barTopY, barBottomY)));
-                rect.setAttribute("width", String(barWidth));
-                rect.setAttribute("height", String(Math.max(barHeight, 1)));
-                rect.setAttribute("fill", fillColor);
-
-                if (usePattern) {
-                    // Draw base color then overlay pattern
-                    const patternRect = document.createElementNS(svgNS, "rect");
-                    patternRect.setAttribute("x", String(bar.xPosition));
-                    patternRect.setAttribute("y", String(Math.min(barTopY, barBottomY)));
-                    patternRect.setAttribute("width", String(barWidth));
-                    patternRect.setAttribute("height", String(Math.max(barHeight, 1)));
-                    patternRect.setAttribute("fill", "url(#dots-pattern)");
-                    barGroup.appendChild(rect);
-                    barGroup.appendChild(patternRect);
-                } else {
-                    barGroup.appendChild(rect);
-                }
+                label.setAttribute("text-anchor", "middle");
+            }
 
-                // Tooltip
-                const title = document.createElementNS(svgNS, "title");
-                title.textContent = `${bar.category}: ${this.formatValue(bar.totalValue)}`;
-                rect.appendChild(title);
+            if (d.lines.length === 1) {
+                label.textContent = d.lines[0];
+            } else {
+                d.lines.forEach((line, lineIndex) => {
+                    const tspan = document.createElementNS(svgNS, "tspan");
+                    tspan.setAttribute("x", "0");
+                    tspan.setAttribute("dy", lineIndex === 0 ? "0" : "1.1em");
+                    tspan.textContent = line;
+                    label.appendChild(tspan);
+                });
             }
 
-            // Value label
-            if (chartSettings.showValues.value) {
-                const label = document.createElementNS(svgNS, "text");
-                label.setAttribute("x", String(bar.xPosition + barWidth / 2));
-                label.setAttribute("y", String(barTopY - 5));
-                label.setAttribute("text-anchor", "middle");
-                label.setAttribute("font-size", String(chartSettings.valueFontSize.value));
-                label.setAttribute("fill", "#333");
-                label.setAttribute("font-family", "Segoe UI, sans-serif");
-                label.textContent = this.formatValue(bar.totalValue);
-                barGroup.appendChild(label);
-
-                // Show stacked values inside bar if multiple
-                if (bar.stackedValues.length > 1 && barHeight > 30) {
-                    let stackY = bar.startY;
-                    for (const stack of bar.stackedValues) {
-                        const stackMidY = yScale(stackY + stack.value / 2);
-                        const stackLabel = document.createElementNS(svgNS, "text");
-                        stackLabel.setAttribute("x", String(bar.xPosition + barWidth / 2));
-                        stackLabel.setAttribute("y", String(stackMidY + 4));
-                        stackLabel.setAttribute("text-anchor", "middle");
-                        stackLabel.setAttribute("font-size", String(chartSettings.valueFontSize.value - 1));
-                        stackLabel.setAttribute("fill", "#fff");
-                        stackLabel.setAttribute("font-family", "Segoe UI, sans-serif");
-                        stackLabel.textContent = this.formatValue(stack.value);
-                        barGroup.appendChild(stackLabel);
-                        stackY += stack.value;
-                    }
-                }
+            // Full name on hover when shortened
+            if (d.lines.join(" ") !== d.category) {
+                const title = document.createElementNS(svgNS, "title");
+                title.textContent = d.category;
+                label.appendChild(title);
             }
 
-            this.svgContainer.appendChild(barGroup);
+            group.appendChild(label);
+        });
+
+        groups.transition(t)
+            .attr("opacity", 1)
+            .attr("transform", d => `translate(${d.x}, ${d.y})`);
+    }
+
+    /**
+     * Lines and rotation of vertical category labels, truncated so they reach
+     * no further than maxExtent below their baseline, and how far they do reach
+     */
+    private layoutCategoryLabels(slotWidth: number, barGap: number, maxExtent: number): CategoryLabelLayout {
+        const axisSettings = this.formattingSettings.axisSettings;
+        const fontSize = axisSettings.xAxisFontSize.value;
+        const descent = fontSize * 0.25;
+
+        const rotate = (rotation: number): CategoryLabelLayout => {
+            // Truncate along the rotated baseline to the bottom margin
+            const radians = rotation * Math.PI / 180;
+            const maxLength = Math.max(maxExtent / Math.sin(radians), 0);
+            const lines = this.bars.map(bar => [truncateText(bar.category, fontSize, maxLength)]);
+            const longest = Math.max(0, ...lines.map(([line]) => measureTextWidth(line, fontSize)));
+            return { lines, rotation, extent: Math.sin(radians) * longest + Math.cos(radians) * descent };
+        };
+
+        if (axisSettings.labelRotation.value > 0) {
+            return rotate(axisSettings.labelRotation.value);
         }
 
-        // Draw connectors (for waterfall) - after bars so they appear on top
-        if (chartSettings.showConnectors.value) {
-            for (let i = 0; i < this.bars.length - 1; i++) {
-                const current = this.bars[i];
-                const next = this.bars[i + 1];
+        const bandWidth = Math.max(slotWidth + barGap - 4, 0);
+        if (this.bars.every(bar => measureTextWidth(bar.category, fontSize) <= bandWidth)) {
+            return { lines: this.bars.map(bar => [bar.category]), rotation: 0, extent: descent };
+        }
 
-                // Draw connector if neither bar is of type "bar"
-                if (current.barType !== "bar" && next.barType !== "bar") {
-                    const connectorY = yScale(current.endY);
-                    const connector = document.createElementNS(svgNS, "line");
-                    connector.setAttribute("x1", String(current.xPosition + barWidth));
-                    connector.setAttribute("x2", String(next.xPosition));
-                    connector.setAttribute("y1", String(connectorY));
-                    connector.setAttribute("y2", String(connectorY));
-                    connector.setAttribute("stroke", colorSettings.connectorColor.value.value);
-                    connector.setAttribute("stroke-width", "1.5");
-                    connector.setAttribute("stroke-dasharray", "4,3");
-                    this.svgContainer.appendChild(connector);
-                }
-            }
+        const wrapped = this.bars.map(bar => wrapText(bar.category, fontSize, bandWidth, 2));
+        if (wrapped.every(bar => !bar.some(line => isTruncated(line)))) {
+            return { lines: wrapped, rotation: 0, extent: fontSize * 1.1 + descent };
         }
+        return rotate(45);
+    }
 
-        // X Axis labels
-        if (axisSettings.showXAxis.value) {
-            const rotation = axisSettings.labelRotation.value;
-            for (const bar of this.bars) {
-                const label = document.createElementNS(svgNS, "text");
-                const labelX = bar.xPosition + barWidth / 2;
-                const labelY = height - margin.bottom + 15;
-
-                label.setAttribute("x", String(labelX));
-                label.setAttribute("y", String(labelY));
-                label.setAttribute("font-size", String(axisSettings.xAxisFontSize.value));
-                label.setAttribute("fill", axisSettings.xAxisColor.value.value);
-                label.setAttribute("font-family", "Segoe UI, sans-serif");
-
-                if (rotation > 0) {
-                    label.setAttribute("transform", `rotate(${rotation}, ${labelX}, ${labelY})`);
-                    label.setAttribute("text-anchor", "start");
-                } else {
-                    label.setAttribute("text-anchor", "middle");
-                }
+    // --- Scrolling ---
 
-                label.textContent = bar.category;
-                this.svgContainer.appendChild(label);
-            }
+    /**
+     * How far the bars run past the plot along the category axis
+     */
+    private getScrollOverflow(): number {
+        if (!this.layout || !this.layout.scrollable) {
+            return 0;
         }
+        const { plot } = this.layout;
+        const plotLength = this.isHorizontal() ? plot.bottom - plot.top : plot.right - plot.left;
+        return Math.max(this.layout.contentLength - plotLength, 0);
     }
 
-    private formatValue(value: number): string {
-        if (value === null || value === undefined) return "";
-        if (value === 0) return "0";
+    /**
+     * Category axis shift of the scrolled content; right-to-left bars overflow to the left
+     */
+    private getScrollOffset(): number {
+        const offset = this.scrollFraction * this.getScrollOverflow();
+        return this.isRightToLeft() ? offset : -offset;
+    }
 
-        const abs = Math.abs(value);
-        const sign = value < 0 ? "-" : "";
+    private setScrollFraction(fraction: number): void {
+        this.scrollFraction = Math.max(0, Math.min(fraction, 1));
+        this.applyScroll();
+    }
 
-        if (abs >= 1000000000) {
-            return sign + (abs / 1000000000).toFixed(1) + "B";
-        } else if (abs >= 1000000) {
-            const formatted = abs / 1000000;
-            return sign + (formatted % 1 === 0 ? formatted.toFixed(0) : formatted.toFixed(2)) + "M";
-        } else if (abs >= 1000) {
-            const formatted = abs / 1000;
-            return sign + (formatted % 1 === 0 ? formatted.toFixed(0) : formatted.toFixed(2)) + "K";
+    /**
+     * Moves the scrolled content and the scrollbar thumb to the current fraction
+     */
+    private applyScroll(): void {
+        if (!this.layers) {
+            return;
         }
-        return value.toFixed(2).replace(/\.?0+$/, "");
-    }
+        const [x, y] = this.orientPoint(this.getScrollOffset(), 0);
+        this.layers.scroll.setAttribute("transform", `translate(${x}, ${y})`);
 
-    private renderEmptyState(width: number, height: number): void {
-        while (this.svgContainer.firstChild) {
-            this.svgContainer.removeChild(this.svgContainer.firstChild);
+        const scrollbar = this.layers.front.querySelector<SVGGElement>(".scrollbar");
+        const thumb = scrollbar && scrollbar.querySelector<SVGRectElement>(".scrollbar-thumb");
+        if (!thumb) {
+            return;
         }
+        const { plot } = this.layout;
+        const horizontal = this.isHorizontal();
+        const trackStart = horizontal ? plot.top : plot.left;
+        const trackLength = horizontal ? plot.bottom - plot.top : plot.right - plot.left;
+        const thumbLength = this.getThumbLength(trackLength);
+        const travel = this.scrollFraction * (trackLength - thumbLength);
+        const thumbStart = this.isRightToLeft() ? trackStart + trackLength - thumbLength - travel : trackStart + travel;
+        thumb.setAttribute(horizontal ? "y" : "x", String(thumbStart));
+        scrollbar.setAttribute("aria-valuenow", String(Math.round(this.scrollFraction * 100)));
+    }
 
-        this.svgContainer.setAttribute("width", String(width));
-        this.svgContainer.setAttribute("height", String(height));
+    private getThumbLength(trackLength: number): number {
+        return Math.min(Math.max(trackLength * trackLength / this.layout.contentLength, 20), trackLength);
+    }
 
+    /**
+     * Clips the scrolled content to the plot along the category axis and, when
+     * the bars overflow, draws a scrollbar beside the plot (below it, or right
+     * of it when horizontal) that drags, pages on a track click and takes the
+     * arrow, Home and End keys.
+     */
+    private renderScrollbar(plot: PlotArea, width: number, height: number): void {
         const svgNS = "http://www.w3.org/2000/svg";
-        const text = document.createElementNS(svgNS, "text");
-        text.setAttribute("x", String(width / 2));
-        text.setAttribute("y", String(height / 2));
-        text.setAttribute("text-anchor", "middle");
-        text.setAttribute("fill", "#666");
-        text.setAttribute("font-size", "14");
-        text.setAttribute("font-family", "Segoe UI, sans-serif");
-        text.textContent = "Add Category, Bar Type and Values to display the chart";
-        this.svgContainer.appendChild(text);
+        const horizontal = this.isHorizontal();
+        const scrollLayer = this.layers.scroll.parentNode as SVGGElement;
+
+        if (!this.layout.scrollable) {
+            this.scrollFraction = 0;
+            scrollLayer.removeAttribute("clip-path");
+            this.applyScroll();
+            return;
+        }
+
+        const clipPath = document.createElementNS(svgNS, "clipPath");
+        clipPath.setAttribute("id", "scroll-clip");
+        const clipRect = document.createElementNS(svgNS, "rect");
+        clipRect.setAttribute("x", String(horizontal ? 0 : plot.left));
+        clipRect.setAttribute("y", String(horizontal ? plot.top : 0));
+        clipRect.setAttribute("width", String(horizontal ? width : plot.right - plot.left));
+        clipRect.setAttribute("height", String(horizontal ? plot.bottom - plot.top : height));
+        clipPath.appendChild(clipRect);
+        this.layers.defs.appendChild(clipPath);
+        scrollLayer.setAttribute("clip-path", "url(#scroll-clip)");
+
+        const trackStart = horizontal ? plot.top : plot.left;
+        const trackLength = horizontal ? plot.bottom - plot.top : plot.right - plot.left;
+        const thumbLength = this.getThumbLength(trackLength);
+        const crossPosition = (horizontal ? width - this.getLegendSpace("right") : height - this.getLegendSpace("bottom"))
+            - (SCROLLBAR_SPACE + SCROLLBAR_SIZE) / 2;
+
+        const scrollbar = document.createElementNS(svgNS, "g");
+        scrollbar.setAttribute("class", "scrollbar");
+        scrollbar.setAttribute("role", "scrollbar");
+        scrollbar.setAttribute("tabindex", "0");
+        scrollbar.setAttribute("aria-label", this.localize("Visual_ScrollBars"));
+        scrollbar.setAttribute("aria-orientation", horizontal ? "vertical" : "horizontal");
+        scrollbar.setAttribute("aria-valuemin", "0");
+        scrollbar.setAttribute("aria-valuemax", "100");
+
+        const createBar = (className: string, start: number, length: number): SVGRectElement => {
+            const rect = document.createElementNS(svgNS, "rect");
+            rect.setAttribute("class", className);
+            rect.setAttribute(horizontal ? "x" : "y", String(crossPosition));
+            rect.setAttribute(horizontal ? "y" : "x", String(start));
+            rect.setAttribute(horizontal ? "width" : "height", String(SCROLLBAR_SIZE));
+            rect.setAttribute(horizontal ? "height" : "width", String(length));
+            rect.setAttribute("rx", String(SCROLLBAR_SIZE / 2));
+            scrollbar.appendChild(rect);
+            return rect;
+        };
+        const track = createBar("scrollbar-track", trackStart, trackLength);
+        const thumb = createBar("scrollbar-thumb", trackStart, thumbLength);
+        track.setAttribute("fill", this.foregroundColor("#E6E6E6"));
+        thumb.setAttribute("fill", this.foregroundColor("#A6A6A6"));
+
+        // Fraction with the thumb's start at a pointer position along the track
+        const travel = Math.max(trackLength - thumbLength, 1);
+        const toFraction = (thumbStart: number): number => this.isRightToLeft()
+            ? (trackStart + trackLength - thumbLength - thumbStart) / travel
+            : (thumbStart - trackStart) / travel;
+        const pointerAlong = (event: PointerEvent): number => {
+            const [x, y] = pointer(event, this.svgContainer);
+            return horizontal ? y : x;
+        };
+
+        let dragStart: { position: number; fraction: number } = null;
+        thumb.addEventListener("pointerdown", (event: PointerEvent) => {
+            event.stopPropagation();
+            thumb.setPointerCapture(event.pointerId);
+            dragStart = { position: pointerAlong(event), fraction: this.scrollFraction };
+        });
+        thumb.addEventListener("pointermove", (event: PointerEvent) => {
+            if (dragStart) {
+                const moved = (pointerAlong(event) - dragStart.position) / travel;
+                this.setScrollFraction(dragStart.fraction + (this.isRightToLeft() ? -moved : moved));
+            }
+        });
+        const endDrag = (event: PointerEvent): void => {
+            if (dragStart) {
+                thumb.releasePointerCapture(event.pointerId);
+                dragStart = null;
+            }
+        };
+        thumb.addEventListener("pointerup", endDrag);
+        thumb.addEventListener("pointercancel", endDrag);
+
+        // A track click centers the thumb on the pointer
+        track.addEventListener("pointerdown", (event: PointerEvent) => {
+            event.stopPropagation();
+            this.setScrollFraction(toFraction(pointerAlong(event) - thumbLength / 2));
+        });
+        scrollbar.addEventListener("click", (event: MouseEvent) => event.stopPropagation());
+
+        scrollbar.addEventListener("keydown", (event: KeyboardEvent) => {
+            const step = (this.layout.slotWidth + this.layout.barGap) / this.getScrollOverflow();
+            const forwardKey = horizontal ? "ArrowDown" : this.isRightToLeft() ? "ArrowLeft" : "ArrowRight";
+            const backwardKey = horizontal ? "ArrowUp" : this.isRightToLeft() ? "ArrowRight" : "ArrowLeft";
+            switch (event.key) {
+                case forwardKey:
+                    this.setScrollFraction(this.scrollFraction + step);
+                    break;
+                case backwardKey:
+                    this.setScrollFraction(this.scrollFraction - step);
+                    break;
+                case "Home":
+                    this.setScrollFraction(0);
+                    break;
+                case "End":
+                    this.setScrollFraction(1);
+                    break;
+                default:
+                    return;
+            }
+            event.preventDefault();
+            event.stopPropagation();
+        });
+
+        this.layers.front.appendChild(scrollbar);
+        this.applyScroll();
+    }
+
+    /**
+     * Scrolls just far enough to bring a focused shape fully into the plot
+     */
+    private scrollIntoView(element: SVGGraphicsElement): void {
+        const overflow = this.getScrollOverflow();
+        if (overflow <= 0 || typeof element.getBBox !== "function") {
+            return;
+        }
+        const { plot } = this.layout;
+        const horizontal = this.isHorizontal();
+        const box = element.getBBox();
+        const start = horizontal ? box.y : box.x;
+        const end = start + (horizontal ? box.height : box.width);
+        const plotStart = horizontal ? plot.top : plot.left;
+        const plotEnd = horizontal ? plot.bottom : plot.right;
+        const offset = this.getScrollOffset();
+
+        let nextOffset = offset;
+        if (start + offset < plotStart) {
+            nextOffset = plotStart - start;
+        } else if (end + offset > plotEnd) {
+            nextOffset = plotEnd - end;
+        }
+        if (nextOffset !== offset) {
+            this.setScrollFraction((this.isRightToLeft() ? nextOffset : -nextOffset) / overflow);
+        }
+    }
+
+    // --- Layers and Transitions ---
+
+    /**
+     * Creates the persistent layer groups, in paint order, on first use
+     */
+    private ensureLayers(): ChartLayers {
+        if (this.layers) {
+            return this.layers;
+        }
+
+        // Drop the empty state message, if any
+        this.clearElement(this.svgContainer);
+
+        const svgNS = "http://www.w3.org/2000/svg";
+        const createLayer = (className: string, parent: Element = this.svgContainer): SVGGElement => {
+            const layer = document.createElementNS(svgNS, "g");
+            layer.setAttribute("class", className);
+            parent.appendChild(layer);
+            return layer;
+        };
+
+        const defs = document.createElementNS(svgNS, "defs");
+        this.svgContainer.appendChild(defs);
+
+        // The clip stays on the outer group, so it holds still while the content scrolls
+        const back = createLayer("back-layer");
+        const scroll = createLayer("scroll-content", createLayer("scroll-layer"));
+        this.layers = {
+            defs,
+            back,
+            scroll,
+            zones: createLayer("zone-layer", scroll),
+            comparison: createLayer("comparison-layer", scroll),
+            bars: createLayer("bar-layer", scroll),
+            targets: createLayer("target-layer", scroll),
+            labels: createLayer("label-layer", scroll),
+            connectors: createLayer("connector-layer", scroll),
+            categories: createLayer("category-layer", scroll),
+            annotations: createLayer("annotation-layer", scroll),
+            front: createLayer("front-layer")
+        };
+        return this.layers;
+    }
+
+    private clearElement(element: Element): void {
+        while (element.firstChild) {
+            element.removeChild(element.firstChild);
+        }
+    }
+
+    /**
+     * Transition length; zero when animation is off or the user prefers reduced motion
+     */
+    private getAnimationDuration(): number {
+        if (!this.formattingSettings.chartSettings.animate.value) {
+            return 0;
+        }
+        const reducedMotion = typeof window.matchMedia === "function"
+            && window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+        return reducedMotion ? 0 : 300;
+    }
+
+    private setRects<T>(rects: Selection<SVGRectElement, T, BaseType, unknown>, getRect: (d: T) => SceneRect): void {
+        rects
+            .attr("x", d => getRect(d).x)
+            .attr("y", d => getRect(d).y)
+            .attr("width", d => getRect(d).width)
+            .attr("height", d => getRect(d).height);
+    }
+
+    private transitionRects<T>(
+        rects: Selection<SVGRectElement, T, BaseType, unknown>,
+        t: ChartTransition,
+        getRect: (d: T) => SceneRect
+    ): void {
+        rects.transition(t)
+            .attr("x", d => getRect(d).x)
+            .attr("y", d => getRect(d).y)
+            .attr("width", d => getRect(d).width)
+            .attr("height", d => getRect(d).height);
+    }
+
+    /**
+     * Draws the scene's separators, at every zone boundary and between
+     * waterfall and plain bars, and each zone's title above it (or beside it when horizontal)
+     */
+    private renderZones(): void {
+        for (const separator of this.scene.separators) {
+            this.appendSceneLine(this.layers.zones, separator, "zone-separator");
+        }
+        for (const title of this.scene.zoneTitles) {
+            this.appendSceneText(this.layers.zones, title, "zone-title");
+        }
+    }
+
+    // --- Annotations ---
+
+    /**
+     * Extra margin on the value side of the plot for step percentages and the bracket
+     */
+    private getAnnotationSpace(): number {
+        const annotationSettings = this.formattingSettings.annotationSettings;
+        const fontSize = annotationSettings.annotationFontSize.value;
+        let space = 0;
+
+        if (!this.fitsTile("annotations")) {
+            return space;
+        }
+        if (annotationSettings.percentMode.value.value !== "none") {
+            space += this.isHorizontal() ? 40 : fontSize + 4;
+        }
+        if (annotationSettings.showBracket.value) {
+            space += fontSize + 20;
+        }
+        return space;
+    }
+
+    /**
+     * Finds a bar by category name (case-insensitive) or, failing that, by sequence number
+     */
+    private findBarByReference(reference: string): BarData | null {
+        const trimmed = (reference || "").trim();
+        if (!trimmed) {
+            return null;
+        }
+
+        const lowered = trimmed.toLowerCase();
+        const byCategory = this.bars.find(bar => bar.category.toLowerCase() === lowered);
+        if (byCategory) {
+            return byCategory;
+        }
+
+        const sequence = Number(trimmed);
+        return isNaN(sequence) ? null : this.bars.find(bar => bar.sequence === sequence) || null;
+    }
+
+    private getPercentBase(mode: string): number {
+        const waterfallBars = this.bars.filter(bar => bar.barType !== "bar");
+        if (waterfallBars.length === 0) {
+            return 0;
+        }
+
+        if (mode === "opening") {
+            const opening = waterfallBars.find(bar => bar.barType === "start") || waterfallBars[0];
+            return opening.endY;
+        }
+
+        const totals = waterfallBars.filter(bar => bar.barType === "total");
+        const final = totals.length > 0 ? totals[totals.length - 1] : waterfallBars[waterfallBars.length - 1];
+        return final.endY;
+    }
+
+    private formatPercent(ratio: number): string {
+        return valueFormatter.format(ratio, "+0.0%;-0.0%;0.0%", false, this.host.locale);
+    }
+
+    private renderAnnotations(barWidth: number, valueScale: ScaleLinear<number, number>): void {
+        const annotationSettings = this.formattingSettings.annotationSettings;
+        const chartSettings = this.formattingSettings.chartSettings;
+        const svgNS = "http://www.w3.org/2000/svg";
+        const horizontal = this.isHorizontal();
+        const fontSize = annotationSettings.annotationFontSize.value;
+        const color = this.foregroundColor(annotationSettings.annotationColor.value.value);
+
+        const layer = this.layers.annotations;
+        if (!this.fitsTile("annotations")) {
+            return;
+        }
+
+        const createText = (x: number, y: number, textAnchor: string, content: string): SVGTextElement => {
+            const text = document.createElementNS(svgNS, "text");
+            text.setAttribute("x", String(x));
+            text.setAttribute("y", String(y));
+            text.setAttribute("text-anchor", textAnchor);
+            text.setAttribute("font-size", String(fontSize));
+            text.setAttribute("fill", color);
+            text.setAttribute("font-family", "Segoe UI, sans-serif");
+            text.textContent = content;
+            layer.appendChild(text);
+            return text;
+        };
+
+        // Step percentages, just beyond each step's value label
+        const percentMode = String(annotationSettings.percentMode.value.value);
+        const percentBase = percentMode !== "none" ? this.getPercentBase(percentMode) : 0;
+        if (percentBase !== 0) {
+            this.bars.forEach((bar, i) => {
+                if (bar.barType !== "step") {
+                    return;
+                }
+
+                const position = this.scene.valueLabels[i];
+                const percentText = this.formatPercent(bar.totalValue / Math.abs(percentBase));
+
+                if (horizontal) {
+                    const labelWidth = this.showValueLabels()
+                        ? textMeasurementService.measureSvgTextWidth({
+                            text: position.text,
+                            fontFamily: "Segoe UI, sans-serif",
+                            fontSize: `${chartSettings.valueFontSize.value}px`
+                        }) + 4
+                        : 0;
+                    const x = position.isDecrease ? position.x - labelWidth : position.x + labelWidth;
+                    createText(x, position.y, position.anchor, percentText).setAttribute("dy", "0.32em");
+                } else {
+                    const labelHeight = this.showValueLabels() ? chartSettings.valueFontSize.value + 1 : 0;
+                    const y = position.isDecrease ? position.y + fontSize + 2 : position.y - labelHeight;
+                    createText(position.x, y, "middle", percentText);
+                }
+            });
+        }
+
+        // Delta bracket between two chosen bars
+        const fromBar = annotationSettings.showBracket.value ? this.findBarByReference(annotationSettings.bracketFrom.value) : null;
+        const toBar = annotationSettings.showBracket.value ? this.findBarByReference(annotationSettings.bracketTo.value) : null;
+        if (fromBar && toBar && fromBar !== toBar) {
+            const fromIndex = this.bars.indexOf(fromBar);
+            const toIndex = this.bars.indexOf(toBar);
+            const spanned = this.bars.slice(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex) + 1);
+
+            // The bracket clears every bar it spans, plus their value labels
+            const outward = horizontal ? 1 : -1;
+            const labelClearance = this.showValueLabels() ? chartSettings.valueFontSize.value + 8 : 8;
+            const outerValue = Math.max(...spanned.map(bar => this.getBarExtent(bar)[1]));
+            const level = valueScale(outerValue) + outward * labelClearance;
+
+            const fromCenter = fromBar.xPosition + barWidth / 2;
+            const toCenter = toBar.xPosition + barWidth / 2;
+            const fromEdge = valueScale(this.getBarExtent(fromBar)[1]) + outward * 3;
+            const toEdge = valueScale(this.getBarExtent(toBar)[1]) + outward * 3;
+
+            const points = [
+                this.orientPoint(fromCenter, fromEdge),
+                this.orientPoint(fromCenter, level),
+                this.orientPoint(toCenter, level),
+                this.orientPoint(toCenter, toEdge)
+            ];
+            const bracket = document.createElementNS(svgNS, "path");
+            bracket.setAttribute("class", "delta-bracket");
+            bracket.setAttribute("d", "M" + points.map(([x, y]) => `${x},${y}`).join(" L"));
+            bracket.setAttribute("fill", "none");
+            bracket.setAttribute("stroke", color);
+            bracket.setAttribute("stroke-width", "1");
+            layer.appendChild(bracket);
+
+            const delta = toBar.endY - fromBar.endY;
+            const deltaText = (delta > 0 ? "+" : "") + this.formatValue(delta)
+                + (fromBar.endY !== 0 ? ` (${this.formatPercent(delta / Math.abs(fromBar.endY))})` : "");
+            const [labelX, labelY] = this.orientPoint((fromCenter + toCenter) / 2, level + outward * 4);
+            const bracketLabel = createText(labelX, labelY, "middle", deltaText);
+            if (horizontal) {
+                bracketLabel.setAttribute("transform", `rotate(90, ${labelX}, ${labelY})`);
+            }
+        }
+    }
+
+    /**
+     * Lines across the whole plot with their label at the far end
+     */
+    private renderReferenceLines(plot: PlotArea, valueScale: ScaleLinear<number, number>, isInRange: (value: number) => boolean): void {
+        const settings = this.formattingSettings.referenceLines;
+        const svgNS = "http://www.w3.org/2000/svg";
+        const horizontal = this.isHorizontal();
+        const color = this.foregroundColor(settings.lineColor.value.value);
+        const fontSize = settings.fontSize.value;
+        const dashArrays: { [style: string]: string } = { solid: "", dashed: "6,4", dotted: "2,3" };
+        const dashArray = dashArrays[String(settings.lineStyle.value.value)] || "";
+        const categoryStart = horizontal ? plot.top : plot.left;
+        const categoryEnd = horizontal ? plot.bottom : plot.right;
+
+        const layer = document.createElementNS(svgNS, "g");
+        layer.setAttribute("class", "reference-lines");
+
+        for (const referenceLine of this.referenceLines.filter(line => isInRange(line.value))) {
+            const line = document.createElementNS(svgNS, "line");
+            line.setAttribute("class", "reference-line");
+            this.setOrientedLine(line, categoryStart, valueScale(referenceLine.value), categoryEnd, valueScale(referenceLine.value));
+            line.setAttribute("stroke", color);
+            line.setAttribute("stroke-width", "1.5");
+            if (dashArray) {
+                line.setAttribute("stroke-dasharray", dashArray);
+            }
+            layer.appendChild(line);
+
+            if (!settings.showLabels.value || !this.fitsTile("valueLabels")) {
+                continue;
+            }
+            const labelText = referenceLine.label
+                ? `${referenceLine.label}: ${this.formatValue(referenceLine.value)}`
+                : this.formatValue(referenceLine.value);
+            const text = document.createElementNS(svgNS, "text");
+            text.setAttribute("class", "reference-line-label");
+            if (horizontal) {
+                text.setAttribute("x", String(valueScale(referenceLine.value) + 4));
+                text.setAttribute("y", String(plot.top + fontSize));
+                text.setAttribute("text-anchor", "start");
+                text.textContent = truncateText(labelText, fontSize, Math.max(plot.right - valueScale(referenceLine.value) - 4, 0));
+            } else {
+                // Labels sit at the end of the line in reading order
+                text.setAttribute("x", String(this.rightToLeft ? plot.left : plot.right));
+                text.setAttribute("y", String(valueScale(referenceLine.value) - 4));
+                text.setAttribute("text-anchor", this.rightToLeft ? "start" : "end");
+                text.textContent = truncateText(labelText, fontSize, plot.right - plot.left);
+            }
+            text.setAttribute("font-size", String(fontSize));
+            text.setAttribute("fill", color);
+            text.setAttribute("font-family", "Segoe UI, sans-serif");
+            layer.appendChild(text);
+        }
+
+        this.layers.front.appendChild(layer);
+    }
+
+    private renderTruncationWarning(height: number): void {
+        if (this.truncationMessages.length === 0) {
+            return;
+        }
+
+        const svgNS = "http://www.w3.org/2000/svg";
+        const warning = document.createElementNS(svgNS, "text");
+        warning.setAttribute("class", "truncation-warning");
+        warning.setAttribute("x", "4");
+        warning.setAttribute("y", String(height - 4));
+        warning.setAttribute("font-size", "10");
+        warning.setAttribute("font-family", "Segoe UI, sans-serif");
+        if (this.isHighContrast()) {
+            warning.setAttribute("style", `fill: ${this.foregroundColor("#B45F06")}`);
+        }
+        warning.textContent = "\u26A0 " + this.truncationMessages.join(" \u2022 ");
+        this.layers.front.appendChild(warning);
+    }
+
+    // --- Validation ---
+
+    /**
+     * Checks the bound data for problems the chart silently works around:
+     * blank categories, sequences that are not numbers,
+     * unknown bar types and categories that appear twice.
+     */
+    private validateData(dataView: DataView, bars: BarData[]): ValidationIssue[] {
+        const categorical = dataView.categorical;
+        const categoryColumns = categorical.categories.filter(col => col.source.roles && col.source.roles["category"]);
+        const categoryColumn = categoryColumns[categoryColumns.length - 1];
+        const barTypeColumn = this.findCategoryColumn(categorical.categories, "barType");
+        const sequenceColumn = this.findCategoryColumn(categorical.categories, "sequence");
+        const issues: ValidationIssue[] = [];
+
+        const rowCategory = (i: number): string => String(categoryColumn.values[i] ?? "");
+        const listOf = (items: string[]): string => {
+            const shown = items.slice(0, 5).map(item => `"${item}"`).join(", ");
+            return items.length > 5 ? this.localize("Visual_Issue_AndMore", shown, items.length - 5) : shown;
+        };
+
+        const blankRows = categoryColumn.values.filter(value => value === null || value === undefined || value === "").length;
+        if (blankRows > 0) {
+            issues.push({
+                code: "blankCategory",
+                severity: "info",
+                message: this.localize("Visual_Issue_BlankCategory", blankRows)
+            });
+        }
+
+        if (sequenceColumn) {
+            const invalid: string[] = [];
+            sequenceColumn.values.forEach((value, i) => {
+                if (parseSequence(value) === null) {
+                    invalid.push(rowCategory(i));
+                }
+            });
+            if (invalid.length > 0) {
+                issues.push({
+                    code: "invalidSequence",
+                    severity: "error",
+                    message: this.localize("Visual_Issue_InvalidSequence", listOf(invalid))
+                });
+            }
+        }
+
+        const unknownTypes = new Map<string, string[]>();
+        (this.isAutoBridge || !barTypeColumn ? [] : barTypeColumn.values).forEach((value, i) => {
+            if (!parseBarType(value)) {
+                const raw = String(value).trim();
+                unknownTypes.set(raw, (unknownTypes.get(raw) || []).concat(rowCategory(i)));
+            }
+        });
+        unknownTypes.forEach((categories, raw) => {
+            issues.push({
+                code: "unknownBarType",
+                severity: "warning",
+                message: this.localize("Visual_Issue_UnknownBarType", raw, listOf(categories), BAR_TYPES.join(", "))
+            });
+        });
+
+        const counts = new Map<string, { category: string; count: number }>();
+        for (const bar of bars.filter(bar => !bar.isGenerated)) {
+            const identity = this.getBarIdentity(bar);
+            const entry = counts.get(identity) || { category: bar.category, count: 0 };
+            entry.count++;
+            counts.set(identity, entry);
+        }
+        const duplicates = Array.from(counts.values()).filter(entry => entry.count > 1).map(entry => entry.category);
+        if (duplicates.length > 0) {
+            issues.push({
+                code: "duplicateCategory",
+                severity: "warning",
+                message: this.localize("Visual_Issue_DuplicateCategory", listOf(duplicates))
+            });
+        }
+
+        if (this.hiddenGap !== 0) {
+            issues.push({
+                code: "unexplainedGap",
+                severity: "warning",
+                message: this.localize("Visual_Issue_UnexplainedGap", this.formatValue(this.hiddenGap))
+            });
+        }
+
+        return issues;
+    }
+
+    /**
+     * Names of the required roles with no column bound. Opening and Closing
+     * generate the bar types and steps, so with them only Category is needed.
+     */
+    private getMissingRoles(dataView: DataView | undefined): string[] {
+        const columns = dataView?.metadata?.columns || [];
+        const isBound = (name: string): boolean => columns.some(col => col.roles && col.roles[name]);
+        const required = isBound("opening") && isBound("closing")
+            ? REQUIRED_ROLES.filter(role => role.name === "category")
+            : REQUIRED_ROLES;
+        return required
+            .filter(role => !isBound(role.name))
+            .map(role => role.name);
+    }
+
+    /**
+     * Authors-only badge in the top right corner with the issue count; clicking
+     * it (or Enter or Space on it) expands the list of issues.
+     */
+    private renderDiagnostics(width: number, height: number): void {
+        const existing = this.layers.front.querySelector(".diagnostics");
+        if (existing) {
+            existing.remove();
+        }
+
+        const issues = this.validationIssues;
+        if (!this.isAuthoring || !this.formattingSettings.diagnostics.show.value || issues.length === 0) {
+            return;
+        }
+
+        const svgNS = "http://www.w3.org/2000/svg";
+        const fontSize = 10;
+        const lineHeight = 14;
+        const warnings = issues.filter(issue => issue.severity !== "info").length;
+        const badgeText = warnings > 0
+            ? "\u26A0 " + this.localize(issues.length > 1 ? "Visual_Diagnostics_Issues" : "Visual_Diagnostics_Issue", issues.length)
+            : "\u24D8 " + this.localize(issues.length > 1 ? "Visual_Diagnostics_Notes" : "Visual_Diagnostics_Note", issues.length);
+
+        const overlay = document.createElementNS(svgNS, "g");
+        overlay.setAttribute("class", "diagnostics");
+
+        const badge = document.createElementNS(svgNS, "g");
+        badge.setAttribute("class", "diagnostics-badge");
+        badge.setAttribute("role", "button");
+        badge.setAttribute("tabindex", "0");
+        badge.setAttribute("aria-expanded", String(this.diagnosticsExpanded));
+        badge.setAttribute("aria-label", this.localize("Visual_Diagnostics_AuthorsOnly", badgeText));
+
+        const badgeWidth = measureTextWidth(badgeText, fontSize) + 12;
+        const badgeBackground = document.createElementNS(svgNS, "rect");
+        badgeBackground.setAttribute("x", String(width - badgeWidth - 4));
+        badgeBackground.setAttribute("y", "4");
+        badgeBackground.setAttribute("width", String(badgeWidth));
+        badgeBackground.setAttribute("height", String(lineHeight + 4));
+        badgeBackground.setAttribute("rx", "3");
+        badgeBackground.setAttribute("fill", this.backgroundColor("#FFF4CE"));
+        badgeBackground.setAttribute("stroke", this.foregroundColor("#B45F06"));
+        badge.appendChild(badgeBackground);
+
+        const badgeLabel = document.createElementNS(svgNS, "text");
+        badgeLabel.setAttribute("x", String(width - badgeWidth / 2 - 4));
+        badgeLabel.setAttribute("y", String(4 + (lineHeight + 4) / 2));
+        badgeLabel.setAttribute("dy", "0.32em");
+        badgeLabel.setAttribute("text-anchor", "middle");
+        badgeLabel.setAttribute("font-size", String(fontSize));
+        badgeLabel.setAttribute("fill", this.foregroundColor("#333"));
+        badgeLabel.setAttribute("font-family", "Segoe UI, sans-serif");
+        badgeLabel.textContent = badgeText;
+        badge.appendChild(badgeLabel);
+
+        const toggle = (event: Event): void => {
+            event.preventDefault();
+            event.stopPropagation();
+            this.diagnosticsExpanded = !this.diagnosticsExpanded;
+            this.renderDiagnostics(width, height);
+            (this.layers.front.querySelector(".diagnostics-badge") as SVGElement)?.focus();
+        };
+        badge.addEventListener("click", toggle);
+        badge.addEventListener("keydown", (event: KeyboardEvent) => {
+            if (event.key === "Enter" || event.key === " ") {
+                toggle(event);
+            }
+        });
+        overlay.appendChild(badge);
+
+        if (this.diagnosticsExpanded) {
+            const panelWidth = Math.min(360, width - 8);
+            const textWidth = panelWidth - 16;
+            const maxLines = Math.max(Math.floor((height - lineHeight - 24) / lineHeight), 1);
+            const lines: string[] = [];
+            for (const issue of issues) {
+                const icons = { error: "\u26D4", warning: "\u26A0", info: "\u24D8" };
+                const wrapped = wrapText(`${icons[issue.severity]} ${issue.message}`, fontSize, textWidth, 3);
+                lines.push(...wrapped);
+            }
+            const shownLines = lines.slice(0, maxLines);
+
+            const panel = document.createElementNS(svgNS, "rect");
+            panel.setAttribute("class", "diagnostics-panel");
+            panel.setAttribute("x", String(width - panelWidth - 4));
+            panel.setAttribute("y", String(lineHeight + 12));
+            panel.setAttribute("width", String(panelWidth));
+            panel.setAttribute("height", String(shownLines.length * lineHeight + 10));
+            panel.setAttribute("rx", "3");
+            panel.setAttribute("fill", this.backgroundColor("#FFFFFF"));
+            panel.setAttribute("fill-opacity", this.isHighContrast() ? "1" : "0.95");
+            panel.setAttribute("stroke", this.foregroundColor("#C8C6C4"));
+            overlay.appendChild(panel);
+
+            shownLines.forEach((line, i) => {
+                const text = document.createElementNS(svgNS, "text");
+                text.setAttribute("x", String(width - panelWidth + 4));
+                text.setAttribute("y", String(lineHeight + 17 + i * lineHeight + lineHeight / 2));
+                text.setAttribute("dy", "0.32em");
+                text.setAttribute("font-size", String(fontSize));
+                text.setAttribute("fill", this.foregroundColor("#333"));
+                text.setAttribute("font-family", "Segoe UI, sans-serif");
+                text.textContent = line;
+                overlay.appendChild(text);
+            });
+        }
+
+        this.layers.front.appendChild(overlay);
+    }
+
+    // --- Legend ---
+
+    /**
+     * Lays out one entry per measure: in rows that wrap when the legend is on
+     * top or bottom, in a single column when it is on the left or right. Only
+     * drawn when more than one measure is bound.
+     */
+    private layoutLegend(width: number, height: number): LegendLayout | null {
+        const legendSettings = this.formattingSettings.legend;
+        if (!legendSettings.show.value || this.legendItems.length < 2 || !this.fitsTile("legend")) {
+            return null;
+        }
+
+        const position = String(legendSettings.position.value.value);
+        const fontSize = legendSettings.fontSize.value;
+        const lineHeight = fontSize + 8;
+        const padding = 6;
+        const swatchSpace = 14;
+        const itemGap = 12;
+        const title = legendSettings.showTitle.value ? (legendSettings.titleText.value || this.localize("Visual_Measures")) : null;
+        const titleWidth = title ? measureTextWidth(title, fontSize) + itemGap : 0;
+        const entries: LegendEntry[] = [];
+
+        if (position === "left" || position === "right") {
+            const maxTextWidth = width * 0.25 - swatchSpace - padding * 2;
+            let y = padding + lineHeight / 2 + (title ? lineHeight : 0);
+            let columnWidth = titleWidth;
+            for (const item of this.legendItems) {
+                const text = truncateText(item.displayName, fontSize, Math.max(maxTextWidth, 0));
+                entries.push({ item, text, x: padding + 5, y });
+                columnWidth = Math.max(columnWidth, swatchSpace + measureTextWidth(text, fontSize));
+                y += lineHeight;
+            }
+            return { position, size: Math.min(columnWidth + padding * 2, width * 0.25), title, entries };
+        }
+
+        // Rows: the title leads the first row, entries wrap at the chart width
+        const maxTextWidth = Math.max(width * 0.4 - swatchSpace, 0);
+        let x = padding + titleWidth;
+        let row = 0;
+        for (const item of this.legendItems) {
+            const text = truncateText(item.displayName, fontSize, maxTextWidth);
+            const entryWidth = swatchSpace + measureTextWidth(text, fontSize);
+            if (x + entryWidth > width - padding && x > padding + titleWidth) {
+                row++;
+                x = padding + titleWidth;
+            }
+            entries.push({ item, text, x: x + 5, y: padding + lineHeight * row + lineHeight / 2 });
+            x += entryWidth + itemGap;
+        }
+        const size = Math.min(padding + lineHeight * (row + 1), height * 0.3);
+        return { position, size, title, entries };
+    }
+
+    private getLegendSpace(side: string): number {
+        return this.legendLayout && this.legendLayout.position === side ? this.legendLayout.size : 0;
+    }
+
+    private addLegendMargin(margin: ChartMargin): ChartMargin {
+        margin.top += this.getLegendSpace("top");
+        margin.bottom += this.getLegendSpace("bottom");
+        margin.left += this.getLegendSpace("left");
+        margin.right += this.getLegendSpace("right");
+        return margin;
+    }
+
+    /**
+     * Draws the legend in the space reserved for it. Each entry is a checkbox:
+     * clicking it, or Enter or Space on it, hides or shows its measure.
+     */
+    private renderLegend(width: number, height: number): void {
+        const layout = this.legendLayout;
+        if (!layout) {
+            return;
+        }
+
+        const legendSettings = this.formattingSettings.legend;
+        const svgNS = "http://www.w3.org/2000/svg";
+        const fontSize = legendSettings.fontSize.value;
+        const textColor = this.foregroundColor(legendSettings.labelColor.value.value);
+        const originX = layout.position === "right" ? width - layout.size : 0;
+        const originY = layout.position === "bottom" ? height - layout.size : 0;
+
+        const legend = document.createElementNS(svgNS, "g");
+        legend.setAttribute("class", "legend");
+        legend.setAttribute("role", "group");
+        legend.setAttribute("aria-label", layout.title || this.localize("Visual_Legend"));
+        legend.setAttribute("transform", `translate(${originX}, ${originY})`);
+
+        // Right-to-left locales read the legend from its right edge
+        const vertical = layout.position === "left" || layout.position === "right";
+        const legendWidth = vertical ? layout.size : width;
+        const mirror = (x: number): number => this.rightToLeft ? legendWidth - x : x;
+
+        const createText = (x: number, y: number, content: string): SVGTextElement => {
+            const text = document.createElementNS(svgNS, "text");
+            text.setAttribute("x", String(mirror(x)));
+            text.setAttribute("y", String(y));
+            text.setAttribute("text-anchor", this.rightToLeft ? "end" : "start");
+            text.setAttribute("dy", "0.32em");
+            text.setAttribute("font-size", String(fontSize));
+            text.setAttribute("fill", textColor);
+            text.setAttribute("font-family", "Segoe UI, sans-serif");
+            text.textContent = content;
+            return text;
+        };
+
+        if (layout.title) {
+            const firstEntry = layout.entries[0];
+            const title = createText(6, vertical ? firstEntry.y - fontSize - 8 : firstEntry.y, layout.title);
+            title.setAttribute("class", "legend-title");
+            legend.appendChild(title);
+        }
+
+        for (const entry of layout.entries) {
+            const item = document.createElementNS(svgNS, "g");
+            item.setAttribute("class", entry.item.hidden ? "legend-item hidden" : "legend-item");
+            item.setAttribute("role", "checkbox");
+            item.setAttribute("aria-checked", String(!entry.item.hidden));
+            item.setAttribute("aria-label", entry.item.displayName);
+            item.setAttribute("tabindex", "0");
+
+            // Hidden measures keep an outlined swatch, so they can be found and shown again
+            const color = this.foregroundColor(entry.item.color);
+            const swatch = document.createElementNS(svgNS, "circle");
+            swatch.setAttribute("cx", String(mirror(entry.x)));
+            swatch.setAttribute("cy", String(entry.y));
+            swatch.setAttribute("r", "5");
+            swatch.setAttribute("fill", entry.item.hidden ? "none" : color);
+            swatch.setAttribute("stroke", color);
+            item.appendChild(swatch);
+
+            const label = createText(entry.x + 9, entry.y, entry.text);
+            if (entry.text !== entry.item.displayName) {
+                const fullName = document.createElementNS(svgNS, "title");
+                fullName.textContent = entry.item.displayName;
+                label.appendChild(fullName);
+            }
+            item.appendChild(label);
+
+            item.addEventListener("click", (event: MouseEvent) => {
+                event.stopPropagation();
+                this.toggleMeasure(entry.item.key);
+            });
+            item.addEventListener("keydown", (event: KeyboardEvent) => {
+                if (event.key === "Enter" || event.key === " ") {
+                    event.preventDefault();
+                    event.stopPropagation();
+                    this.toggleMeasure(entry.item.key);
+                }
+            });
+            legend.appendChild(item);
+        }
+
+        this.layers.front.appendChild(legend);
+    }
+
+    /**
+     * Hides or shows a measure. The hidden set is saved with the report, and
+     * the update that follows recomputes the bars without it.
+     */
+    private toggleMeasure(key: string): void {
+        const hidden = new Set(this.legendItems.filter(item => item.hidden).map(item => item.key));
+        if (hidden.has(key)) {
+            hidden.delete(key);
+        } else {
+            hidden.add(key);
+        }
+
+        this.host.persistProperties({
+            merge: [{
+                objectName: HIDDEN_MEASURES_PROPERTY.objectName,
+                selector: null,
+                properties: { [HIDDEN_MEASURES_PROPERTY.propertyName]: JSON.stringify(Array.from(hidden)) }
+            }]
+        });
+    }
+
+    // --- Compact Mode ---
+
+    /**
+     * How many compact breakpoints the tile falls below, in either dimension
+     */
+    private getCompactLevel(width: number, height: number): number {
+        if (!this.formattingSettings.chartSettings.compactMode.value) {
+            return 0;
+        }
+        return COMPACT_BREAKPOINTS.filter(breakpoint => width < breakpoint.width || height < breakpoint.height).length;
+    }
+
+    /**
+     * Whether the tile is large enough to draw this part
+     */
+    private fitsTile(part: CompactPart): boolean {
+        return this.compactLevel < COMPACT_LEVELS[part];
+    }
+
+    private showValueLabels(): boolean {
+        return this.formattingSettings.chartSettings.showValues.value && this.fitsTile("valueLabels");
+    }
+
+    // --- Orientation ---
+
+    private isHorizontal(): boolean {
+        return this.formattingSettings.chartSettings.orientation.value.value === "horizontal";
+    }
+
+    /**
+     * Vertical bars run right to left in right-to-left locales
+     */
+    private isRightToLeft(): boolean {
+        return this.rightToLeft && !this.isHorizontal();
+    }
+
+    /**
+     * Whether the value axis sits on the far side; it mirrors along with the
+     * bars, so "left" means the reading start side in right-to-left layouts
+     */
+    private isValueAxisOnRight(): boolean {
+        return (this.formattingSettings.yAxisSettings.position.value.value === "right") !== this.isRightToLeft();
+    }
+
+    /**
+     * Maps a (category axis, value axis) pixel pair to SVG (x, y)
+     */
+    private orientPoint(categoryPx: number, valuePx: number): [number, number] {
+        return this.isHorizontal() ? [valuePx, categoryPx] : [categoryPx, valuePx];
+    }
+
+    private setOrientedLine(line: SVGLineElement, category1: number, value1: number, category2: number, value2: number): void {
+        const [x1, y1] = this.orientPoint(category1, value1);
+        const [x2, y2] = this.orientPoint(category2, value2);
+        line.setAttribute("x1", String(x1));
+        line.setAttribute("y1", String(y1));
+        line.setAttribute("x2", String(x2));
+        line.setAttribute("y2", String(y2));
+    }
+
+    /**
+     * Rect spanning [from, to] on the value axis and
+     * [position, position + size] on the category axis.
+     */
+    private getBarRect(
+        position: number,
+        size: number,
+        from: number,
+        to: number,
+        valueScale: (value: number) => number,
+        minLength: number = 1
+    ): SceneRect {
+        const start = valueScale(from);
+        const end = valueScale(to);
+        const offset = Math.min(start, end);
+        const length = Math.max(Math.abs(end - start), minLength);
+
+        return this.isHorizontal()
+            ? { x: offset, y: position, width: length, height: size }
+            : { x: position, y: offset, width: size, height: length };
+    }
+
+    // --- Value Axis ---
+
+    /**
+     * Plot margins. Vertical charts keep category labels below the plot;
+     * horizontal ones keep them on the left, sized from the longest label.
+     * The value axis "left"/"right" position maps to bottom/top when horizontal.
+     * Given a first layout, the value axis and category label margins are
+     * measured from the labels it would draw; without one they are estimated.
+     */
+    private getMargins(width: number, height: number, layout?: WaterfallLayout): ChartMargin {
+        const yAxisSettings = this.formattingSettings.yAxisSettings;
+        const axisSettings = this.formattingSettings.axisSettings;
+        const showAxis = yAxisSettings.showYAxis.value && this.fitsTile("axes");
+        const showCategories = axisSettings.showXAxis.value && this.fitsTile("axes");
+        const axisOnRight = showAxis && this.isValueAxisOnRight();
+        const titleSpace = showAxis && this.fitsTile("titles") && yAxisSettings.showTitle.value && yAxisSettings.titleText.value ? 16 : 0;
+        const zoneTitleSpace = this.formattingSettings.chartSettings.showZoneTitles.value && this.fitsTile("titles")
+            && this.bars.some(bar => !!bar.zone) ? 16 : 0;
+        const annotationSpace = this.getAnnotationSpace();
+        const scrollbarSpace = layout && layout.scrollable ? SCROLLBAR_SPACE : 0;
+
+        if (this.isHorizontal()) {
+            const margin: ChartMargin = { top: 20, right: 50 + zoneTitleSpace + annotationSpace + scrollbarSpace, bottom: 20, left: 20 };
+            if (showCategories) {
+                const fontSize = `${axisSettings.xAxisFontSize.value}px`;
+                let labelWidth = 0;
+                for (const bar of this.bars) {
+                    labelWidth = Math.max(labelWidth, textMeasurementService.measureSvgTextWidth({
+                        text: bar.category,
+                        fontFamily: "Segoe UI, sans-serif",
+                        fontSize
+                    }));
+                }
+                margin.left = Math.min(labelWidth + 12, width * 0.4);
+            }
+            if (layout) {
+                margin.right = 20 + zoneTitleSpace + annotationSpace + scrollbarSpace;
+                if (this.showValueLabels()) {
+                    const valueFontSize = this.formattingSettings.chartSettings.valueFontSize.value;
+                    const labelWidth = Math.max(...this.bars.map(bar => measureTextWidth(this.formatValue(bar.totalValue), valueFontSize)));
+                    margin.right = Math.max(margin.right, labelWidth + 8 + zoneTitleSpace + annotationSpace + scrollbarSpace);
+                }
+            }
+            const axisSpace = yAxisSettings.yAxisFontSize.value + 16 + titleSpace;
+            if (axisOnRight) {
+                margin.top = axisSpace;
+            } else if (showAxis) {
+                margin.bottom = axisSpace;
+            }
+            return this.addLegendMargin(margin);
+        }
+
+        const margin: ChartMargin = { top: 30 + zoneTitleSpace + annotationSpace, right: 20, bottom: 60, left: 50 };
+        let axisSpace = 50;
+        if (layout) {
+            axisSpace = 20;
+            if (showAxis) {
+                const valueScale = createValueScale(layout);
+                const ticks = valueScale.ticks(this.getValueTickCount(layout.plot.bottom - layout.plot.top));
+                const fontSize = yAxisSettings.yAxisFontSize.value;
+                const tickWidth = Math.max(0, ...ticks.map(tick => measureTextWidth(this.formatValue(tick), fontSize)));
+                axisSpace = tickWidth + (axisOnRight ? 10 : 18);
+            }
+
+            margin.bottom = 20;
+            if (showCategories) {
+                const maxExtent = Math.max(height * 0.4 - 15, 0);
+                const labels = this.layoutCategoryLabels(layout.slotWidth, layout.barGap, maxExtent);
+                margin.bottom = 15 + Math.min(labels.extent, maxExtent) + 4;
+            }
+            margin.bottom += scrollbarSpace;
+        }
+
+        if (axisOnRight) {
+            margin.left = 20;
+            margin.right = axisSpace + titleSpace;
+        } else {
+            margin.left = axisSpace + titleSpace;
+        }
+        return this.addLegendMargin(margin);
+    }
+
+    private getValueTickCount(plotLength: number): number {
+        return getTickCount(plotLength, this.isHorizontal() ? "horizontal" : "vertical");
+    }
+
+    private renderValueAxis(): void {
+        for (const gridline of this.scene.gridlines) {
+            this.appendSceneLine(this.layers.back, gridline, "y-gridline");
+        }
+        for (const label of this.scene.axisLabels) {
+            this.appendSceneText(this.layers.back, label, "y-axis-label");
+        }
+        if (this.scene.axisTitle) {
+            this.appendSceneText(this.layers.back, this.scene.axisTitle, "y-axis-title");
+        }
+    }
+
+    // --- Selection ---
+
+    private bindSelection(element: SVGElement, selectionId: ISelectionId, barSelectionId: ISelectionId): void {
+        element.classList.add("bar-segment");
+        select(element).on("click", (event: MouseEvent) => {
+            event.stopPropagation();
+            if (!selectionId) {
+                return;
+            }
+            const multiSelect = event.ctrlKey || event.metaKey;
+            this.selectionManager.select(selectionId, multiSelect).then((ids: ISelectionId[]) => {
+                this.applySelection(ids);
+            });
+        });
+        this.selectableShapes.push({ element, selectionId, barSelectionId });
+    }
+
+    /**
+     * Dims every shape that is not part of the selection. Selecting a whole bar
+     * keeps all of its stacked segments lit.
+     */
+    private applySelection(ids: ISelectionId[]): void {
+        const hasSelection = ids && ids.length > 0;
+
+        for (const shape of this.selectableShapes) {
+            const isSelected = !hasSelection || ids.some(id =>
+                (shape.selectionId && id.equals(shape.selectionId))
+                || (shape.barSelectionId && id.equals(shape.barSelectionId))
+            );
+            // High contrast keeps full opacity and outlines the selection instead
+            shape.element.setAttribute("opacity", isSelected || this.isHighContrast() ? "1" : "0.4");
+            shape.element.classList.toggle("selected", hasSelection && isSelected);
+            if (shape.element.hasAttribute("aria-selected")) {
+                shape.element.setAttribute("aria-selected", String(hasSelection && isSelected));
+            }
+        }
+    }
+
+    // --- Keyboard and Screen Readers ---
+
+    /**
+     * Makes a shape a keyboard stop. Only one shape is in the tab order at a
+     * time; arrow keys move between shapes and Enter or Space selects.
+     */
+    private bindKeyboard(element: SVGElement, accessibleName: string, selectionId: ISelectionId): void {
+        const index = this.focusableShapes.length;
+        element.setAttribute("role", "option");
+        element.setAttribute("aria-label", accessibleName);
+        element.setAttribute("aria-selected", "false");
+        element.setAttribute("tabindex", "-1");
+
+        select(element)
+            .on("focus", () => {
+                this.focusIndex = index;
+                this.updateRovingTabIndex();
+            })
+            .on("keydown", (event: KeyboardEvent) => this.handleKeyDown(event, index, selectionId));
+        this.focusableShapes.push(element);
+    }
+
+    /**
+     * Takes a shape that is no longer its bar's focus target out of keyboard navigation
+     */
+    private unbindKeyboard(element: SVGElement): void {
+        for (const attribute of ["role", "aria-label", "aria-selected", "tabindex"]) {
+            element.removeAttribute(attribute);
+        }
+        select(element).on("focus", null).on("keydown", null);
+    }
+
+    private handleKeyDown(event: KeyboardEvent, index: number, selectionId: ISelectionId): void {
+        const lastIndex = this.focusableShapes.length - 1;
+        let nextIndex: number = null;
+
+        // Left and right follow the drawn sequence, which is mirrored in right-to-left layouts
+        const forwardKey = this.isRightToLeft() ? "ArrowLeft" : "ArrowRight";
+        const backwardKey = this.isRightToLeft() ? "ArrowRight" : "ArrowLeft";
+
+        switch (event.key) {
+            case forwardKey:
+            case "ArrowDown":
+                nextIndex = Math.min(index + 1, lastIndex);
+                break;
+            case backwardKey:
+            case "ArrowUp":
+                nextIndex = Math.max(index - 1, 0);
+                break;
+            case "Home":
+                nextIndex = 0;
+                break;
+            case "End":
+                nextIndex = lastIndex;
+                break;
+            case "Enter":
+            case " ":
+                if (selectionId) {
+                    const multiSelect = event.ctrlKey || event.metaKey;
+                    this.selectionManager.select(selectionId, multiSelect).then((ids: ISelectionId[]) => {
+                        this.applySelection(ids);
+                    });
+                }
+                break;
+            case "Escape":
+                this.selectionManager.clear().then(() => this.applySelection([]));
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+        event.stopPropagation();
+        if (nextIndex !== null) {
+            this.focusableShapes[nextIndex].focus();
+            this.scrollIntoView(this.focusableShapes[nextIndex] as SVGGraphicsElement);
+        }
+    }
+
+    /**
+     * Keeps the last focused shape (or the first one) as the chart's single tab stop
+     */
+    private updateRovingTabIndex(): void {
+        // A shape that kept focus through an update stays the tab stop
+        const activeIndex = this.focusableShapes.indexOf(document.activeElement as SVGElement);
+        if (activeIndex >= 0) {
+            this.focusIndex = activeIndex;
+        }
+        this.focusIndex = Math.max(0, Math.min(this.focusIndex, this.focusableShapes.length - 1));
+        this.focusableShapes.forEach((element, i) => {
+            element.setAttribute("tabindex", i === this.focusIndex ? "0" : "-1");
+        });
+    }
+
+    /**
+     * Screen reader name: category, bar type, value and, for waterfall bars, the running total
+     */
+    private getAccessibleName(bar: BarData, stack?: StackedValue): string {
+        const typeNames: Record<BarType, string> = {
+            start: this.localize("Visual_Accessible_Start"),
+            step: this.localize(bar.totalValue < 0 ? "Visual_Accessible_Decrease" : "Visual_Accessible_Increase"),
+            subtotal: this.localize("Visual_Accessible_Subtotal"),
+            total: this.localize("Visual_Accessible_Total"),
+            bar: this.localize("Visual_Accessible_Bar")
+        };
+
+        const parts = [bar.category];
+        if (stack) {
+            parts.push(stack.measureName);
+        }
+        parts.push(typeNames[bar.barType]);
+        parts.push(stack ? this.formatValue(stack.value, stack.format) : this.formatValue(bar.totalValue));
+        if (bar.barType !== "bar") {
+            parts.push(this.localize("Visual_Accessible_RunningTotal", this.formatValue(bar.endY)));
+        }
+        if (!stack && bar.comparison) {
+            const summary = bar.barType === "subtotal" || bar.barType === "total";
+            parts.push(`${this.comparisonName} ${this.formatValue(summary ? bar.comparison.endY : bar.comparisonValue || 0)}`);
+        }
+        if (!stack && bar.variance !== null && bar.variance > 0) {
+            parts.push(this.localize("Visual_Accessible_OverTarget", this.formatValue(bar.variance)));
+        }
+        return parts.join(", ");
+    }
+
+    // --- High Contrast ---
+
+    private isHighContrast(): boolean {
+        return !!this.host.colorPalette.isHighContrast;
+    }
+
+    /**
+     * Theme foreground in high contrast mode, the given color otherwise
+     */
+    private foregroundColor(color: string): string {
+        return this.isHighContrast() ? this.host.colorPalette.foreground.value : color;
+    }
+
+    /**
+     * Theme background in high contrast mode, the given color otherwise
+     */
+    private backgroundColor(color: string): string {
+        return this.isHighContrast() ? this.host.colorPalette.background.value : color;
+    }
+
+    /**
+     * Theme colors the scene draws with in high contrast mode, or null outside it
+     */
+    private getHighContrastColors(): SceneStyle["highContrast"] {
+        const palette = this.host.colorPalette;
+        return this.isHighContrast() ? { foreground: palette.foreground.value, background: palette.background.value } : null;
+    }
+
+    /**
+     * Text color for a label drawn on top of a fill
+     */
+    private getInsideLabelColor(fill: string): string {
+        return this.isHighContrast() ? this.backgroundColor(fill) : getContrastColor(fill);
+    }
+
+    /**
+     * Focus ring and selection outline colors, read by the stylesheet
+     */
+    private applyThemeColors(): void {
+        const palette = this.host.colorPalette;
+        const highContrast = this.isHighContrast();
+        this.svgContainer.classList.toggle("high-contrast", highContrast);
+        // Set on the visual's element, so the table view and its buttons share them
+        this.target.style.setProperty("--focus-color", highContrast ? palette.foregroundSelected.value : "#252423");
+        this.target.style.setProperty("--selected-color", highContrast ? palette.foregroundSelected.value : "#252423");
+    }
+
+    // --- Tooltips ---
+
+    private bindTooltip(element: SVGElement, getItems: () => VisualTooltipDataItem[], selectionId: ISelectionId): void {
+        const tooltipService = this.host.tooltipService;
+        const getCoordinates = (event: MouseEvent): number[] => {
+            const bounds = this.target.getBoundingClientRect();
+            return [event.clientX - bounds.left, event.clientY - bounds.top];
+        };
+
+        // Bound through d3, so binding a shape again on the next update replaces its handlers
+        select(element).on("mouseover", (event: MouseEvent) => {
+            tooltipService.show({
+                coordinates: getCoordinates(event),
+                isTouchEvent: false,
+                dataItems: getItems(),
+                identities: selectionId ? [selectionId] : []
+            });
+        }).on("mousemove", (event: MouseEvent) => {
+            tooltipService.move({
+                coordinates: getCoordinates(event),
+                isTouchEvent: false,
+                identities: selectionId ? [selectionId] : []
+            });
+        }).on("mouseout", () => {
+            tooltipService.hide({ isTouchEvent: false, immediately: true });
+        });
+    }
+
+    /**
+     * Tooltip content for a whole bar, or for one of its stacked segments
+     */
+    private getTooltipItems(bar: BarData, stack?: StackedValue): VisualTooltipDataItem[] {
+        const items: VisualTooltipDataItem[] = [
+            { displayName: this.localize("Visual_Category"), value: bar.category },
+            { displayName: this.localize("Visual_BarType"), value: bar.barType }
+        ];
+
+        if (stack) {
+            const barMagnitude = bar.stackedValues.reduce((sum, s) => sum + Math.abs(s.value), 0);
+            items.push({ displayName: stack.measureName, value: this.formatValue(stack.value, stack.format), color: stack.color });
+            if (barMagnitude > 0) {
+                const share = Math.abs(stack.value) / barMagnitude;
+                items.push({
+                    displayName: this.localize("Visual_ShareOfBar"),
+                    value: valueFormatter.format(share, "0.0%", false, this.host.locale)
+                });
+            }
+        } else {
+            for (const s of bar.stackedValues) {
+                items.push({ displayName: s.measureName, value: this.formatValue(s.value, s.format), color: s.color });
+            }
+            if (bar.stackedValues.length !== 1) {
+                items.push({ displayName: this.localize("Visual_Value"), value: this.formatValue(bar.totalValue) });
+            }
+        }
+
+        if (bar.comparison) {
+            const summary = bar.barType === "subtotal" || bar.barType === "total";
+            const shownValue = summary ? bar.endY : bar.totalValue;
+            const comparisonValue = summary ? bar.comparison.endY : bar.comparisonValue || 0;
+            const difference = shownValue - comparisonValue;
+            items.push({
+                displayName: this.comparisonName,
+                value: this.formatValue(comparisonValue),
+                color: this.formattingSettings.comparison.color.value.value
+            });
+            items.push({
+                displayName: this.localize("Visual_DeltaVs", this.comparisonName),
+                value: (difference > 0 ? "+" : "") + this.formatValue(difference)
+                    + (comparisonValue !== 0 ? ` (${this.formatPercent(difference / Math.abs(comparisonValue))})` : "")
+            });
+        }
+
+        if (bar.target !== null) {
+            items.push({ displayName: this.localize("Visual_Target"), value: this.formatValue(bar.target) });
+            items.push({
+                displayName: this.localize(bar.variance > 0 ? "Visual_OverTarget" : "Visual_VarianceToTarget"),
+                value: (bar.variance > 0 ? "+" : "") + this.formatValue(bar.variance)
+                    + (bar.target !== 0 ? ` (${this.formatPercent(bar.variance / Math.abs(bar.target))})` : "")
+            });
+        }
+
+        if (bar.barType !== "bar") {
+            items.push({
+                displayName: this.localize("Visual_RunningTotal"),
+                value: `${this.formatValue(bar.startY)} \u2192 ${this.formatValue(bar.endY)}`
+            });
+        }
+
+        for (const extra of bar.tooltipValues) {
+            items.push({
+                displayName: extra.displayName,
+                value: typeof extra.value === "number"
+                    ? this.formatValue(extra.value, extra.format)
+                    : valueFormatter.format(extra.value, extra.format, false, this.host.locale)
+            });
+        }
+
+        return items;
+    }
+
+    // --- Value Formatting ---
+
+    /**
+     * Formatters are cached per format string and rebuilt on every update so
+     * display units, decimal places and the auto unit follow the current data.
+     */
+    private resetFormatters(): void {
+        this.formatters = new Map();
+        this.autoDisplayUnitValue = 0;
+        for (const bar of this.bars) {
+            this.autoDisplayUnitValue = Math.max(
+                this.autoDisplayUnitValue,
+                Math.abs(bar.startY),
+                Math.abs(bar.endY),
+                Math.abs(bar.totalValue)
+            );
+        }
+    }
+
+    private getFormatter(format: string): IValueFormatter {
+        const key = format || "";
+        let formatter = this.formatters.get(key);
+
+        if (!formatter) {
+            const chartSettings = this.formattingSettings.chartSettings;
+            const displayUnits = Number(chartSettings.displayUnits.value) || 0;
+            const decimalPlaces = chartSettings.decimalPlaces.value;
+
+            formatter = valueFormatter.create({
+                format,
+                // 0 is "Auto": pick the unit from the largest value on the chart
+                value: displayUnits === 0 ? this.autoDisplayUnitValue : displayUnits,
+                precision: decimalPlaces !== null && decimalPlaces !== undefined ? decimalPlaces : undefined,
+                cultureSelector: this.host.locale
+            });
+            this.formatters.set(key, formatter);
+        }
+        return formatter;
+    }
+
+    /**
+     * Formats with the measure's own format string; bar totals, running totals
+     * and the axis use the format of the first measure.
+     */
+    private formatValue(value: number, format: string = this.primaryFormat): string {
+        if (value === null || value === undefined) return "";
+        return this.getFormatter(format).format(value);
+    }
+
+    /**
+     * Shown until the chart has something to draw: the roles still to bind,
+     * the Bar Type grammar and a small example bridge. When every role is
+     * bound but no rows remain, only a short note is shown.
+     */
+    private renderLandingPage(width: number, height: number, missingRoles: string[]): void {
+        this.selectableShapes = [];
+        this.focusableShapes = [];
+        this.validationIssues = [];
+        this.applyThemeColors();
+
+        // Layers are rebuilt by the next chart render
+        this.layers = null;
+        this.clearElement(this.svgContainer);
+
+        this.svgContainer.setAttribute("width", String(width));
+        this.svgContainer.setAttribute("height", String(height));
+
+        const svgNS = "http://www.w3.org/2000/svg";
+        const textColor = this.foregroundColor("#333");
+        const mutedColor = this.foregroundColor("#666");
+        const highlightColor = this.foregroundColor("#B45F06");
+        const page = document.createElementNS(svgNS, "g");
+        page.setAttribute("class", "landing-page");
+        this.svgContainer.appendChild(page);
+
+        // Offsets are from the reading edge: the left, or the right in right-to-left locales
+        const addText = (content: string, x: number, y: number, fontSize: number, fill: string, weight: string = "normal"): void => {
+            const text = document.createElementNS(svgNS, "text");
+            text.setAttribute("x", String(this.rightToLeft ? width - x : x));
+            text.setAttribute("y", String(y));
+            text.setAttribute("text-anchor", this.rightToLeft ? "end" : "start");
+            text.setAttribute("dy", "0.32em");
+            text.setAttribute("font-size", String(fontSize));
+            text.setAttribute("font-weight", weight);
+            text.setAttribute("fill", fill);
+            text.setAttribute("font-family", "Segoe UI, sans-serif");
+            text.textContent = truncateText(content, fontSize, Math.max(width - x - 12, 0));
+            page.appendChild(text);
+        };
+
+        if (missingRoles.length === 0) {
+            addText(this.localize("Visual_Landing_NoRows"), 12, height / 2, 14, mutedColor);
+            return;
+        }
+
+        const left = 12;
+        let y = 20;
+        addText(this.localize("Visual_Landing_Title"), left, y, 16, textColor, "600");
+        y += 24;
+        addText(this.localize("Visual_Landing_RequiredFields"), left, y, 11, textColor, "600");
+        y += 16;
+        for (const role of REQUIRED_ROLES) {
+            const missing = missingRoles.indexOf(role.name) >= 0;
+            const roleName = this.localize(role.displayNameKey);
+            addText(`${missing ? "\u25CB" : "\u2713"} ${missing ? this.localize("Visual_Landing_Missing", roleName) : roleName}`,
+                left + 8, y, 11, missing ? highlightColor : mutedColor, missing ? "600" : "normal");
+            y += 15;
+        }
+        addText(this.localize("Visual_Landing_AutoBridge"), left + 8, y, 11, mutedColor);
+        y += 15;
+
+        y += 8;
+        addText(this.localize("Visual_Landing_BarTypeValues"), left, y, 11, textColor, "600");
+        y += 16;
+
+        // The bar type keywords are data values, so they stay untranslated
+        for (const barType of BAR_TYPES) {
+            addText(`${barType} \u2013 ${this.localize(`Visual_Landing_Grammar_${barType}`)}`, left + 8, y, 11, mutedColor);
+            y += 15;
+        }
+
+        // Example bridge below the text when there is room for it
+        const exampleHeight = height - y - 12;
+        if (exampleHeight < 100 || width < 220) {
+            return;
+        }
+        const example: WaterfallBarInput[] = [
+            { category: this.localize("Visual_Example_Opening"), barType: "start", value: 100 },
+            { category: this.localize("Visual_Example_Sales"), barType: "step", value: 40 },
+            { category: this.localize("Visual_Example_Costs"), barType: "step", value: -30 },
+            { category: "Q1", barType: "subtotal", value: 0 },
+            { category: this.localize("Visual_Example_Returns"), barType: "step", value: -10 },
+            { category: this.localize("Visual_Example_Closing"), barType: "total", value: 0 }
+        ];
+        const exampleWidth = Math.min(width - left * 2, 420);
+        const input = {
+            bars: example,
+            settings: {
+                orientation: "vertical" as const,
+                barWidth: 32,
+                barGap: 12,
+                resetAfterTotal: false,
+                rangeMin: null,
+                rangeMax: null,
+                negativeLabelSpace: 0,
+                rightToLeft: this.rightToLeft
+            },
+            viewport: { width: exampleWidth, height: exampleHeight },
+            margin: { top: 16, right: 8, bottom: 24, left: 8 }
+        };
+        const markup = renderWaterfallSvg(input, computeWaterfallLayout(input), {
+            textColor: mutedColor,
+            categoryColor: mutedColor,
+            fontSize: 10,
+            highContrast: this.getHighContrastColors()
+        });
+        const parsed = new DOMParser().parseFromString(markup, "image/svg+xml").documentElement;
+        const exampleSvg = document.importNode(parsed, true) as unknown as SVGSVGElement;
+        exampleSvg.setAttribute("x", String(this.rightToLeft ? width - left - exampleWidth : left));
+        exampleSvg.setAttribute("y", String(y));
+        exampleSvg.setAttribute("class", "landing-example");
+        exampleSvg.setAttribute("aria-hidden", "true");
+        page.appendChild(exampleSvg);
+    }
+
+    // --- Bridge Table ---
+
+    /**
+     * The bridge as computed for the chart: one row per drawn bar, with each
+     * visible measure, the bar's start and end, and the running total after it
+     * (blank for plain bars, which stay outside the running total)
+     */
+    private buildBridgeTable(): BridgeTable {
+        // Measures are matched by query name, so two with the same display name keep their own columns
+        const measures = this.legendItems.filter(item => !item.hidden);
+        const findFormat = (queryName: string): string | undefined => {
+            for (const bar of this.bars) {
+                const stack = bar.stackedValues.find(s => s.queryName === queryName);
+                if (stack) {
+                    return stack.format;
+                }
+            }
+            return undefined;
+        };
+
+        const columns: BridgeColumn[] = [
+            { title: this.localize("Visual_Category"), numeric: false },
+            { title: this.localize("Visual_BarType"), numeric: false },
+            { title: this.localize("Visual_Sequence"), numeric: false },
+            ...measures.map((item): BridgeColumn => ({ title: item.displayName, numeric: true, format: findFormat(item.key) })),
+            { title: this.localize("Visual_Start"), numeric: true },
+            { title: this.localize("Visual_End"), numeric: true },
+            { title: this.localize("Visual_RunningTotal"), numeric: true }
+        ];
+
+        const rows = this.bars.map((bar): BridgeCell[] => [
+            bar.category,
+            bar.barType,
+            bar.sequence,
+            ...measures.map(item => {
+                const stacks = bar.stackedValues.filter(stack => stack.queryName === item.key);
+                return stacks.length > 0 ? stacks.reduce((sum, stack) => sum + stack.value, 0) : null;
+            }),
+            bar.startY,
+            bar.endY,
+            bar.barType === "bar" ? null : bar.endY
+        ]);
+
+        return { columns, rows };
+    }
+
+    private renderBridgeControls(): void {
+        this.renderTableView();
+        this.renderToolbar();
+    }
+
+    /**
+     * Buttons over the chart to switch to the table view and, where the host
+     * allows downloads, to export the bridge as CSV
+     */
+    private renderToolbar(): void {
+        this.clearElement(this.toolbar);
+        this.toolbar.hidden = !this.formattingSettings?.bridgeTable.showToolbar.value || this.bars.length === 0;
+        if (this.toolbar.hidden) {
+            return;
+        }
+        this.toolbar.setAttribute("aria-label", this.localize("Visual_BridgeTable"));
+
+        const addButton = (className: string, label: string, onClick: () => void): HTMLButtonElement => {
+            const button = document.createElement("button");
+            button.type = "button";
+            button.className = className;
+            button.textContent = label;
+            button.style.color = this.foregroundColor("#252423");
+            button.style.backgroundColor = this.backgroundColor("#FFFFFF");
+            button.addEventListener("click", (event: MouseEvent) => {
+                event.stopPropagation();
+                onClick();
+            });
+            this.toolbar.appendChild(button);
+            return button;
+        };
+
+        const tableToggle = addButton("table-toggle", this.localize("Visual_ShowAsTable"), () => {
+            this.showingTable = !this.showingTable;
+            this.renderBridgeControls();
+            (this.toolbar.querySelector(".table-toggle") as HTMLButtonElement)?.focus();
+        });
+        tableToggle.setAttribute("aria-pressed", String(this.showingTable));
+
+        if (this.exportAllowed) {
+            addButton("export-csv", this.localize("Visual_ExportCsv"), () => this.exportBridgeCsv());
+        }
+    }
+
+    /**
+     * Accessible HTML table of the bridge, shown in place of the chart
+     */
+    private renderTableView(): void {
+        const showTable = this.showingTable && this.bars.length > 0;
+        this.svgContainer.style.display = showTable ? "none" : "";
+        this.tableView.hidden = !showTable;
+        this.clearElement(this.tableView);
+        if (!showTable) {
+            return;
+        }
+
+        const bridge = this.buildBridgeTable();
+        this.tableView.dir = this.rightToLeft ? "rtl" : "ltr";
+        this.tableView.style.color = this.foregroundColor("#252423");
+        this.tableView.style.backgroundColor = this.backgroundColor("#FFFFFF");
+
+        const table = document.createElement("table");
+        const caption = document.createElement("caption");
+        caption.textContent = this.localize("Visual_BridgeTable");
+        table.appendChild(caption);
+
+        const headerRow = table.createTHead().insertRow();
+        for (const column of bridge.columns) {
+            const header = document.createElement("th");
+            header.scope = "col";
+            header.className = column.numeric ? "numeric" : "";
+            header.textContent = column.title;
+            headerRow.appendChild(header);
+        }
+
+        // The category heads each row, so screen readers announce it with every value
+        const body = table.createTBody();
+        for (const row of bridge.rows) {
+            const tableRow = body.insertRow();
+            row.forEach((cell, i) => {
+                const column = bridge.columns[i];
+                const element = document.createElement(i === 0 ? "th" : "td");
+                if (i === 0) {
+                    (element as HTMLTableCellElement).scope = "row";
+                }
+                element.className = column.numeric ? "numeric" : "";
+                element.textContent = cell === null
+                    ? ""
+                    : column.numeric ? this.formatValue(Number(cell), column.format) : String(cell);
+                tableRow.appendChild(element);
+            });
+        }
+
+        this.tableView.appendChild(table);
+    }
+
+    private exportBridgeCsv(): void {
+        // A declined or blocked download leaves the visual as it is
+        this.host.downloadService.exportVisualsContent(
+            toCsv(this.buildBridgeTable()),
+            BRIDGE_FILE_NAME,
+            "csv",
+            this.localize("Visual_BridgeTable")
+        ).catch((): void => undefined);
+    }
+
+    // --- Localization ---
+
+    /**
+     * String for a resource key in the report's language, with {0}, {1}... replaced by the arguments
+     */
+    private localize(key: string, ...args: (string | number)[]): string {
+        return this.localizationManager.getDisplayName(key)
+            .replace(/\{(\d+)\}/g, (placeholder, index) => index < args.length ? String(args[index]) : placeholder);
     }
 
     // --- Formatting Pane ---
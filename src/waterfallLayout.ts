@@ -0,0 +1,1268 @@
+import { scaleLinear, ScaleLinear } from "d3";
+
+/**
+ * Headless waterfall layout: generated bars (hierarchy subtotals, Others,
+ * automatic bridge ends), running totals, stacked segments, bar placement,
+ * value domain, and the scene both the visual and the static SVG draw.
+ * Plain data in, plain data out, so it runs outside Power BI (tests,
+ * server-side report images).
+ */
+
+export type BarType = "start" | "step" | "subtotal" | "total" | "bar";
+
+export type Orientation = "vertical" | "horizontal";
+
+/** Comparison bar drawn offset behind the main bar, or beside it */
+export type ComparisonStyle = "ghost" | "clustered";
+
+// --- Input ---
+
+export interface WaterfallSegmentInput {
+    value: number;
+    color?: string;
+}
+
+export interface WaterfallBarInput {
+    category: string;
+    barType: BarType;
+    /** Bar value: the change for a step, the opening for a start, the height for a bar */
+    value: number;
+    /** Measures stacked in the bar, in order; empty or one segment for a plain bar */
+    segments?: WaterfallSegmentInput[];
+    /** A new zone index starts its own running total */
+    zoneIndex?: number;
+    /** Draw as one bar even when several segments are given */
+    solid?: boolean;
+    /** Fill override */
+    color?: string;
+    /** Target for the bar's own value: the change for a step, the height otherwise */
+    target?: number | null;
+    /** Value of the comparison scenario (prior year, budget), read like value */
+    comparison?: number | null;
+    /** Draw a total at its own value instead of the running total, which then continues from it */
+    ownValue?: boolean;
+    /** Zone value, shown as the title of the zone the bar starts */
+    zone?: string;
+}
+
+export interface WaterfallSettings {
+    orientation: Orientation;
+    /** Preferred bar width; bars widen up to twice this to fill the plot */
+    barWidth: number;
+    barGap: number;
+    /** Narrowest bar; below it bars keep this width and run past the plot, to be scrolled */
+    minBarWidth?: number;
+    /** Restart the running total after each total bar */
+    resetAfterTotal: boolean;
+    /** Manual value range; null keeps the automatic end */
+    rangeMin: number | null;
+    rangeMax: number | null;
+    /** Pixels kept beyond negative bars for their value labels */
+    negativeLabelSpace: number;
+    /** How comparison bars share a category slot with the main bar; ghost by default */
+    comparisonStyle?: ComparisonStyle;
+    /** Run vertical bars from the right edge leftwards, for right-to-left locales */
+    rightToLeft?: boolean;
+}
+
+export interface ChartMargin {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+export interface WaterfallInput {
+    bars: WaterfallBarInput[];
+    settings: WaterfallSettings;
+    viewport: { width: number; height: number };
+    margin: ChartMargin;
+    /** Values of horizontal reference lines, kept inside the value domain */
+    referenceValues?: number[];
+}
+
+// --- Output ---
+
+export interface PlotArea {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export interface SegmentLayout {
+    value: number;
+    startY: number;
+    endY: number;
+}
+
+export interface BarLayout {
+    category: string;
+    barType: BarType;
+    zoneIndex: number;
+    totalValue: number;
+    startY: number;
+    endY: number;
+    /** Offset of the bar on the category axis (x when vertical, y when horizontal) */
+    position: number;
+    segments: SegmentLayout[];
+    stacked: boolean;
+    /** Lowest and highest values covered by the drawn bar (segments included) */
+    extent: [number, number];
+    /** Offset of the category slot, which holds the comparison bar before the main bar in reading order */
+    slotPosition: number;
+    /** Comparison waterfall at this category, or null without comparison values */
+    comparison: ComparisonLayout | null;
+    /** Target marker on the value axis (cumulative for steps), or null without a target */
+    targetY: number | null;
+    /** Value minus target; positive when the bar is over its target */
+    variance: number | null;
+}
+
+export interface ComparisonLayout {
+    totalValue: number;
+    startY: number;
+    endY: number;
+    position: number;
+    extent: [number, number];
+}
+
+export interface WaterfallLayout {
+    orientation: Orientation;
+    bars: BarLayout[];
+    /** Width of one bar; main and comparison bars are the same width */
+    barWidth: number;
+    /** Width of a category slot: the bar width, or more with comparison bars */
+    slotWidth: number;
+    barGap: number;
+    plot: PlotArea;
+    /** Value axis domain, rounded to nice ticks unless set manually */
+    domain: [number, number];
+    /** True when a manual range may cut bars, which are then clamped to the plot */
+    clamped: boolean;
+    tickCount: number;
+    /** True when vertical bars run right to left */
+    rightToLeft: boolean;
+    /** Length of the run of bars along the category axis; longer than the plot when scrollable */
+    contentLength: number;
+    /** True when the bars at their minimum width overflow the plot */
+    scrollable: boolean;
+}
+
+// --- Layout ---
+
+export function computeWaterfallLayout(input: WaterfallInput): WaterfallLayout {
+    const { settings, viewport, margin } = input;
+    const horizontal = settings.orientation === "horizontal";
+
+    const plot: PlotArea = {
+        left: margin.left,
+        top: margin.top,
+        right: viewport.width - margin.right,
+        bottom: viewport.height - margin.bottom
+    };
+
+    const bars = computeRunningTotals(input.bars, settings.resetAfterTotal);
+    const comparisons = computeComparisonTotals(input.bars, settings.resetAfterTotal);
+
+    // Category slots are laid out along the category axis: across when vertical, down when horizontal
+    const slotRatio = comparisons ? COMPARISON_SLOT_RATIOS[settings.comparisonStyle || "ghost"] : 1;
+    const axisStart = horizontal ? plot.top : plot.left;
+    const axisLength = horizontal ? plot.bottom - plot.top : plot.right - plot.left;
+    const preferredSlotWidth = settings.barWidth * slotRatio;
+    let spacing = getBarSpacing(bars.length, axisLength, preferredSlotWidth, settings.barGap);
+
+    // Too many bars to fit: keep the minimum width, with the gap in proportion, and overflow
+    const minSlotWidth = (settings.minBarWidth || 0) * slotRatio;
+    const scrollable = spacing.barWidth < minSlotWidth;
+    if (scrollable) {
+        spacing = { barWidth: minSlotWidth, barGap: minSlotWidth * settings.barGap / preferredSlotWidth };
+    }
+    const slotWidth = spacing.barWidth;
+    const barWidth = slotWidth / slotRatio;
+    const barGap = spacing.barGap;
+    const contentLength = bars.length > 0 ? bars.length * slotWidth + (bars.length - 1) * barGap : 0;
+
+    // Right to left mirrors the sequence and each slot; horizontal bars keep running top down
+    const rightToLeft = !horizontal && !!settings.rightToLeft;
+    bars.forEach((bar, i) => {
+        const leading = rightToLeft ? slotWidth - barWidth : 0;
+        bar.slotPosition = rightToLeft
+            ? plot.right - slotWidth - i * (slotWidth + barGap)
+            : axisStart + i * (slotWidth + barGap);
+        bar.position = bar.slotPosition + slotWidth - barWidth - leading;
+        if (comparisons) {
+            bar.comparison = { ...comparisons[i], position: bar.slotPosition + leading };
+        }
+    });
+
+    const plotLength = horizontal ? plot.right - plot.left : plot.bottom - plot.top;
+    const tickCount = getTickCount(plotLength, settings.orientation);
+    const { domain, clamped } = computeValueDomain(bars, settings, plotLength, tickCount, input.referenceValues);
+
+    return {
+        orientation: settings.orientation, bars, barWidth, slotWidth, barGap, plot, domain, clamped, tickCount, rightToLeft,
+        contentLength, scrollable
+    };
+}
+
+/**
+ * Slot width in bar widths: a ghost peeks out a quarter bar behind the main
+ * bar, a clustered pair sits side by side with a small gap
+ */
+const COMPARISON_SLOT_RATIOS: Record<ComparisonStyle, number> = {
+    ghost: 1.25,
+    clustered: 2.1
+};
+
+/**
+ * The comparison scenario's own running totals, by the same rules as the
+ * main bars, or null when no bar has a comparison value
+ */
+export function computeComparisonTotals(inputs: WaterfallBarInput[], resetAfterTotal: boolean): ComparisonLayout[] | null {
+    if (!inputs.some(input => input.comparison !== null && input.comparison !== undefined)) {
+        return null;
+    }
+
+    const comparisonInputs = inputs.map((input): WaterfallBarInput => ({
+        category: input.category,
+        barType: input.barType,
+        value: Number(input.comparison) || 0,
+        zoneIndex: input.zoneIndex
+    }));
+    return computeRunningTotals(comparisonInputs, resetAfterTotal).map((bar): ComparisonLayout => ({
+        totalValue: bar.totalValue,
+        startY: bar.startY,
+        endY: bar.endY,
+        position: 0,
+        extent: bar.extent
+    }));
+}
+
+/**
+ * Zone index per bar, from each bar's Zone value: a new zone, with its own
+ * running total, starts wherever the value changes. Plain bars stay in the
+ * zone around them, so the running total carries past them.
+ */
+export function getZoneIndexes(zones: string[]): number[] {
+    let zoneIndex = 0;
+    return zones.map((zone, i) => {
+        if (i > 0 && zone !== zones[i - 1]) {
+            zoneIndex++;
+        }
+        return zoneIndex;
+    });
+}
+
+/**
+ * Running totals per zone. A start seeds the total, steps move it, subtotals
+ * and totals show it (or, with ownValue, reset it to their own value), and
+ * plain bars stand on their own from zero. A step's
+ * target is a change too, so its marker sits where the target would have
+ * moved the running total.
+ */
+export function computeRunningTotals(inputs: WaterfallBarInput[], resetAfterTotal: boolean): BarLayout[] {
+    let runningTotal = 0;
+    let zoneIndex: number = null;
+
+    return inputs.map((input): BarLayout => {
+        const barZone = input.zoneIndex || 0;
+        if (barZone !== zoneIndex) {
+            zoneIndex = barZone;
+            runningTotal = 0;
+        }
+
+        let startY = 0;
+        let endY = 0;
+        if (input.barType === "start") {
+            endY = input.value;
+            runningTotal = endY;
+        } else if (input.barType === "step") {
+            startY = runningTotal;
+            endY = runningTotal + input.value;
+            runningTotal = endY;
+        } else if (input.barType === "subtotal") {
+            endY = runningTotal;
+        } else if (input.barType === "total") {
+            endY = input.ownValue ? input.value : runningTotal;
+            runningTotal = resetAfterTotal ? 0 : endY;
+        } else {
+            endY = input.value;
+        }
+
+        const segments = stackSegments(input.segments || [], startY);
+        const stacked = segments.length > 1 && !input.solid;
+        const hasTarget = input.target !== null && input.target !== undefined && isFinite(input.target);
+        const shownValue = input.barType === "subtotal" || input.barType === "total" ? endY : input.value;
+        return {
+            category: input.category,
+            barType: input.barType,
+            zoneIndex: barZone,
+            totalValue: input.value,
+            startY,
+            endY,
+            position: 0,
+            slotPosition: 0,
+            comparison: null,
+            segments,
+            stacked,
+            extent: getValueExtent(startY, endY, stacked ? segments : []),
+            targetY: hasTarget ? startY + input.target : null,
+            variance: hasTarget ? shownValue - input.target : null
+        };
+    });
+}
+
+/**
+ * Diverging stack: positive segments grow up from the bar start,
+ * negative segments grow down from it, so they never cross over.
+ */
+export function stackSegments(segments: WaterfallSegmentInput[], startY: number): SegmentLayout[] {
+    let positiveY = startY;
+    let negativeY = startY;
+
+    return segments.map((segment): SegmentLayout => {
+        if (segment.value >= 0) {
+            const from = positiveY;
+            positiveY += segment.value;
+            return { value: segment.value, startY: from, endY: positiveY };
+        }
+        const from = negativeY;
+        negativeY += segment.value;
+        return { value: segment.value, startY: from, endY: negativeY };
+    });
+}
+
+/**
+ * Lowest and highest values covered by a bar and the given segments
+ */
+export function getValueExtent(startY: number, endY: number, segments: { startY: number; endY: number }[]): [number, number] {
+    let min = Math.min(startY, endY);
+    let max = Math.max(startY, endY);
+    for (const segment of segments) {
+        min = Math.min(min, segment.startY, segment.endY);
+        max = Math.max(max, segment.startY, segment.endY);
+    }
+    return [min, max];
+}
+
+/**
+ * Bar width and gap filling the category axis, keeping the preferred
+ * gap-to-width ratio and at most twice the preferred width
+ */
+export function getBarSpacing(count: number, axisLength: number, preferredWidth: number, preferredGap: number): { barWidth: number; barGap: number } {
+    if (count === 0) {
+        return { barWidth: preferredWidth, barGap: preferredGap };
+    }
+
+    const gapRatio = preferredGap / preferredWidth;
+    const totalUnits = count + (count - 1) * gapRatio; // Each bar = 1 unit, each gap = gapRatio units
+    const barWidth = Math.max(Math.min(axisLength / totalUnits, preferredWidth * 2), 0);
+    return { barWidth, barGap: barWidth * gapRatio };
+}
+
+export function getTickCount(plotLength: number, orientation: Orientation): number {
+    return Math.max(2, Math.floor(plotLength / (orientation === "horizontal" ? 80 : 40)));
+}
+
+/**
+ * Domain over the real min and max of the bars, their comparison bars and
+ * targets, and the reference lines (zero always included), rounded to nice ticks. A manual
+ * range overrides either end and clamps.
+ */
+export function computeValueDomain(
+    bars: BarLayout[],
+    settings: WaterfallSettings,
+    plotLength: number,
+    tickCount: number,
+    referenceValues: number[] = []
+): { domain: [number, number]; clamped: boolean } {
+    let minValue = 0;
+    let maxValue = 0;
+    for (const bar of bars) {
+        minValue = Math.min(minValue, bar.extent[0]);
+        maxValue = Math.max(maxValue, bar.extent[1]);
+        if (bar.comparison) {
+            minValue = Math.min(minValue, bar.comparison.extent[0]);
+            maxValue = Math.max(maxValue, bar.comparison.extent[1]);
+        }
+        if (bar.targetY !== null) {
+            minValue = Math.min(minValue, bar.targetY);
+            maxValue = Math.max(maxValue, bar.targetY);
+        }
+    }
+    for (const value of referenceValues) {
+        minValue = Math.min(minValue, value);
+        maxValue = Math.max(maxValue, value);
+    }
+    if (maxValue === minValue) {
+        maxValue = minValue + 1;
+    }
+
+    // Leave room for value labels beyond negative bars
+    if (minValue < 0 && settings.negativeLabelSpace > 0 && plotLength > 0) {
+        minValue -= (settings.negativeLabelSpace / plotLength) * (maxValue - minValue);
+    }
+
+    const [niceMin, niceMax] = scaleLinear().domain([minValue, maxValue]).nice(tickCount).domain();
+
+    const hasManualMin = settings.rangeMin !== null && settings.rangeMin !== undefined;
+    const hasManualMax = settings.rangeMax !== null && settings.rangeMax !== undefined;
+    if (hasManualMin || hasManualMax) {
+        const domainMin = hasManualMin ? settings.rangeMin : niceMin;
+        const domainMax = hasManualMax ? settings.rangeMax : niceMax;
+        if (domainMax > domainMin) {
+            return { domain: [domainMin, domainMax], clamped: true };
+        }
+    }
+
+    return { domain: [niceMin, niceMax], clamped: false };
+}
+
+/**
+ * Value axis scale: bottom to top when vertical, left to right when horizontal
+ */
+export function createValueScale(layout: WaterfallLayout): ScaleLinear<number, number> {
+    const { plot } = layout;
+    return scaleLinear()
+        .domain(layout.domain)
+        .range(layout.orientation === "horizontal" ? [plot.left, plot.right] : [plot.bottom, plot.top])
+        .clamp(layout.clamped);
+}
+
+// --- Generated Bars ---
+
+/** A bar inside an expanded hierarchy: its own type and the path of its parents */
+export interface HierarchyBar {
+    barType: BarType;
+    /** Parent category values, outermost first; empty with a single category level */
+    parents: string[];
+}
+
+/**
+ * Inserts a subtotal after every parent group, innermost level first. Only
+ * groups that move the running total get one. createSubtotal receives the
+ * group's last bar and the level closed, 0 being the outermost parent.
+ */
+export function insertHierarchySubtotals<T extends HierarchyBar>(
+    bars: T[],
+    levels: number,
+    createSubtotal: (last: T, level: number) => T
+): T[] {
+    const result: T[] = [];
+    const groupRows: number[] = [];
+
+    const closeGroups = (previous: T, fromLevel: number): void => {
+        for (let level = levels - 1; level >= fromLevel; level--) {
+            const groupBars = result.slice(groupRows[level]);
+            if (groupBars.some(bar => bar.barType === "step" || bar.barType === "start")) {
+                result.push(createSubtotal(previous, level));
+            }
+        }
+    };
+
+    bars.forEach((bar, i) => {
+        if (i === 0) {
+            for (let level = 0; level < levels; level++) {
+                groupRows[level] = 0;
+            }
+        } else {
+            const previous = bars[i - 1];
+            const changedLevel = bar.parents.slice(0, levels).findIndex((parent, level) => parent !== previous.parents[level]);
+            if (changedLevel >= 0) {
+                closeGroups(previous, changedLevel);
+                for (let level = changedLevel; level < levels; level++) {
+                    groupRows[level] = result.length;
+                }
+            }
+        }
+        result.push(bar);
+    });
+
+    if (bars.length > 0) {
+        closeGroups(bars[bars.length - 1], 0);
+    }
+    return result;
+}
+
+/** A measure stacked in a bar, merged by name when steps are folded */
+export interface FoldableSegment {
+    measureName: string;
+    value: number;
+    highlight: number | null;
+}
+
+/** A bar Top N may fold, with the values that sum into the Others step */
+export interface FoldableBar<S extends FoldableSegment = FoldableSegment> {
+    barType: BarType;
+    /** Generated bars (subtotals, Others, bridge ends) are never folded */
+    isGenerated: boolean;
+    totalValue: number;
+    highlightValue: number | null;
+    comparisonValue: number | null;
+    target: number | null;
+    stackedValues: S[];
+}
+
+export type FoldedValues<S extends FoldableSegment> =
+    Pick<FoldableBar<S>, "totalValue" | "highlightValue" | "comparisonValue" | "target" | "stackedValues">;
+
+export interface FoldResult<T> {
+    bars: T[];
+    /** Steps kept as they are, and steps that could be folded */
+    kept: number;
+    steps: number;
+}
+
+/**
+ * Keeps the largest maxSteps steps and folds the others into one step per
+ * run of consecutive steps, placed at the end of that run. The folded values
+ * stay in the same stretch of the bridge, so every later subtotal and total
+ * keeps its exact value. A maxSteps of 0 keeps every step.
+ */
+export function foldSmallSteps<T extends FoldableBar>(
+    bars: T[],
+    maxSteps: number,
+    createOthers: (folded: T[]) => T
+): FoldResult<T> {
+    const steps = bars.filter(bar => bar.barType === "step" && !bar.isGenerated);
+    if (!maxSteps || steps.length <= maxSteps) {
+        return { bars, kept: steps.length, steps: steps.length };
+    }
+
+    const kept = new Set(steps
+        .slice()
+        .sort((a, b) => Math.abs(b.totalValue) - Math.abs(a.totalValue))
+        .slice(0, maxSteps));
+
+    const result: T[] = [];
+    let folded: T[] = [];
+    const flushOthers = (): void => {
+        if (folded.length > 0) {
+            result.push(createOthers(folded));
+            folded = [];
+        }
+    };
+
+    for (const bar of bars) {
+        if (bar.barType !== "step" || bar.isGenerated) {
+            flushOthers();
+            result.push(bar);
+        } else if (kept.has(bar)) {
+            result.push(bar);
+        } else {
+            folded.push(bar);
+        }
+    }
+    flushOthers();
+
+    return { bars: result, kept: kept.size, steps: steps.length };
+}
+
+/**
+ * Sums folded steps into the values of their Others step. Segments merge by
+ * measure name and drop out when they cancel; comparison and target stay
+ * null unless a folded step has one.
+ */
+export function sumFoldedSteps<S extends FoldableSegment>(folded: FoldableBar<S>[]): FoldedValues<S> {
+    const stackedValues: S[] = [];
+    for (const bar of folded) {
+        for (const stack of bar.stackedValues) {
+            const existing = stackedValues.find(s => s.measureName === stack.measureName);
+            if (!existing) {
+                stackedValues.push({ ...stack });
+            } else {
+                existing.value += stack.value;
+                if (existing.highlight !== null) {
+                    existing.highlight += stack.highlight || 0;
+                }
+            }
+        }
+    }
+
+    const sumOrNull = (values: (number | null)[]): number | null =>
+        values.some(value => value !== null) ? values.reduce((sum, value) => sum + (value || 0), 0) : null;
+
+    return {
+        totalValue: folded.reduce((sum, bar) => sum + bar.totalValue, 0),
+        highlightValue: sumOrNull(folded.map(bar => bar.highlightValue)),
+        comparisonValue: sumOrNull(folded.map(bar => bar.comparisonValue)),
+        target: sumOrNull(folded.map(bar => bar.target)),
+        stackedValues: stackedValues.filter(stack => stack.value !== 0)
+    };
+}
+
+/** Order of the driver steps in an automatic bridge */
+export type DriverSort = "data" | "impact" | "name";
+
+/** A driver step of an automatic bridge */
+export interface DriverBar {
+    category: string;
+    totalValue: number;
+    parents: string[];
+}
+
+/**
+ * Orders the driver steps by absolute impact, largest first, or by name;
+ * "data" keeps their order. Drivers under one hierarchy parent stay together.
+ */
+export function sortDrivers<T extends DriverBar>(bars: T[], mode: DriverSort, locale?: string): T[] {
+    if (mode !== "impact" && mode !== "name") {
+        return bars.slice();
+    }
+
+    const groupOrder = new Map<string, number>();
+    for (const bar of bars) {
+        const group = bar.parents.join("\u001F");
+        if (!groupOrder.has(group)) {
+            groupOrder.set(group, groupOrder.size);
+        }
+    }
+    const groupOf = (bar: T): number => groupOrder.get(bar.parents.join("\u001F"));
+
+    const compare = mode === "impact"
+        ? (a: T, b: T): number => Math.abs(b.totalValue) - Math.abs(a.totalValue)
+        : (a: T, b: T): number => a.category.localeCompare(b.category, locale);
+    return bars.slice().sort((a, b) => groupOf(a) - groupOf(b) || compare(a, b));
+}
+
+/** Bars the automatic bridge adds around its drivers */
+export type BridgeBarKind = "opening" | "unexplained" | "closing";
+
+export interface BridgeResult<T> {
+    bars: T[];
+    /** Unexplained change left out of the bars; 0 when it is drawn or there is none */
+    hiddenGap: number;
+}
+
+/** Gaps smaller than this share of the opening or closing are rounding noise */
+export const BRIDGE_GAP_TOLERANCE = 1e-9;
+
+/**
+ * Wraps the driver steps in the opening start bar and the closing total,
+ * with an Unexplained step, when showUnexplained is on, for whatever change
+ * the steps leave. The caller draws the closing bar at the closing value it
+ * is given, so it stays right when the gap is not drawn. The bridge is numbered 1..n as drawn, since the generated
+ * bars have no sequence of their own.
+ */
+export function addBridgeEnds<T extends { barType: BarType; totalValue: number; sequence: number }>(
+    bars: T[],
+    opening: number,
+    closing: number,
+    showUnexplained: boolean,
+    createBar: (kind: BridgeBarKind, value: number) => T
+): BridgeResult<T> {
+    const explained = bars
+        .filter(bar => bar.barType === "step")
+        .reduce((total, bar) => total + bar.totalValue, 0);
+    const gap = closing - opening - explained;
+    const hasGap = Math.abs(gap) > BRIDGE_GAP_TOLERANCE * Math.max(Math.abs(opening), Math.abs(closing), 1);
+
+    const result = [createBar("opening", opening), ...bars];
+    if (hasGap && showUnexplained) {
+        result.push(createBar("unexplained", gap));
+    }
+    result.push(createBar("closing", closing));
+
+    return {
+        bars: result.map((bar, i) => ({ ...bar, sequence: i + 1 })),
+        hiddenGap: hasGap && !showUnexplained ? gap : 0
+    };
+}
+
+// --- Scene ---
+
+/**
+ * How a bar is filled: its color alone, its color under a pattern, or only its outline
+ */
+export type FillStyle = "solid" | "dots" | "stripes" | "crosshatch" | "outline";
+
+/**
+ * Colors, fills and switches a scene is built with. The visual fills every
+ * field from the format pane; the static SVG takes the defaults for the rest.
+ */
+export interface SceneStyle {
+    increaseColor: string;
+    decreaseColor: string;
+    subtotalColor: string;
+    totalColor: string;
+    /** Fill of starts and plain bars */
+    defaultColor: string;
+    fills: Record<BarType, FillStyle>;
+    patternColor: string;
+    /** Pattern opacity, from 0 to 1 */
+    patternOpacity: number;
+    /** Pattern tile size, so denser patterns are smaller */
+    patternSpacing: number;
+    /** Border around every bar shape; none at width 0 */
+    borderColor: string;
+    borderWidth: number;
+    cornerRadius: number;
+    comparisonColor: string;
+    showTargets: boolean;
+    targetColor: string;
+    /** Fill and marker color of bars over their target; null leaves them unflagged */
+    overTargetColor: string | null;
+    showConnectors: boolean;
+    connectorColor: string;
+    baselineColor: string;
+    /** Zone separators and titles */
+    separatorColor: string;
+    showZoneTitles: boolean;
+    showValueAxis: boolean;
+    /** Value axis on the far side: right when vertical, top when horizontal */
+    valueAxisOnRight: boolean;
+    axisColor: string;
+    axisFontSize: number;
+    /** Value axis title; empty for none */
+    axisTitle: string;
+    showGridlines: boolean;
+    gridlineColor: string;
+    showValues: boolean;
+    /** Value labels, outside the bars */
+    textColor: string;
+    fontSize: number;
+    showCategoryLabels: boolean;
+    categoryColor: string;
+    categoryFontSize: number;
+    fontFamily: string;
+    /** Theme colors in high contrast mode, which replace every other color; null otherwise */
+    highContrast: { foreground: string; background: string } | null;
+    formatValue: (value: number) => string;
+}
+
+export const DEFAULT_SCENE_STYLE: SceneStyle = {
+    increaseColor: "#2E8B57",
+    decreaseColor: "#C0392B",
+    subtotalColor: "#5B6770",
+    totalColor: "#34495E",
+    defaultColor: "#4682B4",
+    fills: { start: "solid", step: "solid", subtotal: "solid", total: "solid", bar: "solid" },
+    patternColor: "#333333",
+    patternOpacity: 0.3,
+    patternSpacing: 6,
+    borderColor: "#333333",
+    borderWidth: 0,
+    cornerRadius: 0,
+    comparisonColor: "#A19F9D",
+    showTargets: true,
+    targetColor: "#333333",
+    overTargetColor: null,
+    showConnectors: true,
+    connectorColor: "#999999",
+    baselineColor: "#CCCCCC",
+    separatorColor: "#666666",
+    showZoneTitles: true,
+    showValueAxis: false,
+    valueAxisOnRight: false,
+    axisColor: "#666666",
+    axisFontSize: 10,
+    axisTitle: "",
+    showGridlines: false,
+    gridlineColor: "#E0E0E0",
+    showValues: true,
+    textColor: "#333333",
+    fontSize: 10,
+    showCategoryLabels: true,
+    categoryColor: "#333333",
+    categoryFontSize: 10,
+    fontFamily: "Segoe UI, sans-serif",
+    highContrast: null,
+    formatValue: value => String(Math.round(value * 100) / 100)
+};
+
+export interface SceneRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SceneLine {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    color: string;
+    width: number;
+    dash: string | null;
+}
+
+export interface SceneText {
+    x: number;
+    y: number;
+    text: string;
+    anchor: "start" | "middle" | "end";
+    /** Baseline shift, such as 0.32em to center the text on y */
+    dy: string | null;
+    /** Degrees, about (x, y) */
+    rotation: number;
+    color: string;
+    fontSize: number;
+}
+
+/**
+ * Pattern tile laid over a bar's own fill, drawn from circles and lines
+ */
+export interface ScenePattern {
+    id: string;
+    size: number;
+    rotation: number;
+    color: string;
+    opacity: number;
+    circles: { cx: number; cy: number; r: number }[];
+    lines: SceneLine[];
+}
+
+export interface BarFill {
+    color: string;
+    fillStyle: FillStyle;
+    /** Pattern laid over the fill, or null for solid and outline fills */
+    patternId: string | null;
+}
+
+/**
+ * One drawn shape of a bar: the whole bar, or one stacked segment
+ */
+export interface SceneShape {
+    /** Index of the stacked segment, or -1 for the whole bar */
+    segment: number;
+    /** Values the shape spans */
+    from: number;
+    to: number;
+    rect: SceneRect;
+    fill: string;
+    stroke: string | null;
+    strokeWidth: number | null;
+    patternId: string | null;
+}
+
+export interface SceneBar {
+    category: string;
+    barType: BarType;
+    fill: BarFill;
+    shapes: SceneShape[];
+}
+
+export interface SceneComparison {
+    /** Index of the bar the comparison belongs to */
+    index: number;
+    rect: SceneRect;
+    fill: string;
+    fillOpacity: number | null;
+    stroke: string | null;
+    strokeWidth: number | null;
+    dash: string | null;
+}
+
+/** A target marker or connector, with the bars it belongs to */
+export interface SceneBarLine extends SceneLine {
+    from: number;
+    to: number;
+}
+
+export interface SceneValueLabel extends SceneText {
+    /** Value the label is attached to: the bar's outer end */
+    anchorValue: number;
+    isDecrease: boolean;
+    /** Placed but not drawn: labels are off, or the anchor is outside a manual range */
+    hidden: boolean;
+}
+
+/**
+ * Everything a waterfall draws, in pixels and resolved colors: the visual
+ * joins it into its layers and renderWaterfallSvg writes it out as is.
+ * Lists are in paint order; bars, labels and category labels follow the layout's bars.
+ */
+export interface WaterfallScene {
+    width: number;
+    height: number;
+    cornerRadius: number;
+    fontFamily: string;
+    patterns: ScenePattern[];
+    gridlines: SceneLine[];
+    axisLabels: SceneText[];
+    axisTitle: SceneText | null;
+    baseline: SceneLine | null;
+    separators: SceneLine[];
+    zoneTitles: SceneText[];
+    comparisons: SceneComparison[];
+    bars: SceneBar[];
+    targets: SceneBarLine[];
+    connectors: SceneBarLine[];
+    valueLabels: SceneValueLabel[];
+    categoryLabels: SceneText[];
+}
+
+const PATTERN_FILLS: FillStyle[] = ["dots", "stripes", "crosshatch"];
+
+/**
+ * Fill of a bar from its type, sign and color override. Bars over their
+ * target take the flag color. In high contrast every fill turns into a theme
+ * color, and solid subtotals and totals take a pattern to stay apart.
+ */
+export function resolveBarFill(input: WaterfallBarInput, variance: number | null, style: SceneStyle): BarFill {
+    let color = style.defaultColor;
+    let fillStyle = style.fills[input.barType];
+
+    if (input.barType === "subtotal") {
+        color = style.subtotalColor;
+    } else if (input.barType === "total") {
+        color = style.totalColor;
+    } else if (input.barType === "step") {
+        color = input.value < 0 ? style.decreaseColor : style.increaseColor;
+    }
+    if (input.color) {
+        color = input.color;
+    }
+
+    // Over target wins over every other color, so the flag is never lost
+    if (style.overTargetColor !== null && variance !== null && variance > 0) {
+        color = style.overTargetColor;
+    }
+
+    if (style.highContrast) {
+        const isSummary = input.barType === "subtotal" || input.barType === "total";
+        if (isSummary && fillStyle === "solid") {
+            fillStyle = input.barType === "total" ? "stripes" : "dots";
+        }
+        color = isSummary ? style.highContrast.background : style.highContrast.foreground;
+    }
+
+    return { color, fillStyle, patternId: PATTERN_FILLS.indexOf(fillStyle) >= 0 ? `fill-${fillStyle}` : null };
+}
+
+/**
+ * Builds the scene for a computed layout: patterns, value axis and
+ * gridlines, baseline, zone separators and titles, comparison bars, bar
+ * shapes, target markers, connectors, and value and category labels.
+ */
+export function buildWaterfallScene(
+    input: WaterfallInput,
+    layout: WaterfallLayout,
+    styleOverrides: Partial<SceneStyle> = {}
+): WaterfallScene {
+    const style: SceneStyle = { ...DEFAULT_SCENE_STYLE, ...styleOverrides };
+    const { width, height } = input.viewport;
+    const { plot, barWidth, slotWidth } = layout;
+    const horizontal = layout.orientation === "horizontal";
+    const scale = createValueScale(layout);
+    const [domainMin, domainMax] = scale.domain();
+    const isInRange = (value: number): boolean => value >= domainMin && value <= domainMax;
+    const foreground = (color: string): string => style.highContrast ? style.highContrast.foreground : color;
+    const background = (color: string): string => style.highContrast ? style.highContrast.background : color;
+    const hasBars = layout.bars.length > 0;
+
+    // (category axis, value axis) pixels to SVG (x, y)
+    const point = (category: number, value: number): [number, number] => horizontal ? [value, category] : [category, value];
+    const line = (category1: number, value1: number, category2: number, value2: number, color: string, lineWidth: number, dash: string | null = null): SceneLine => {
+        const [x1, y1] = point(category1, value1);
+        const [x2, y2] = point(category2, value2);
+        return { x1, y1, x2, y2, color, width: lineWidth, dash };
+    };
+    const rect = (position: number, from: number, to: number): SceneRect => {
+        const start = scale(from);
+        const end = scale(to);
+        const offset = Math.min(start, end);
+        const length = Math.max(Math.abs(end - start), 1);
+        return horizontal
+            ? { x: offset, y: position, width: length, height: barWidth }
+            : { x: position, y: offset, width: barWidth, height: length };
+    };
+    const text = (x: number, y: number, content: string, anchor: SceneText["anchor"], color: string, fontSize: number, dy: string | null = null, rotation = 0): SceneText =>
+        ({ x, y, text: content, anchor, dy, rotation, color, fontSize });
+
+    const categoryStart = horizontal ? plot.top : plot.left;
+    const categoryEnd = horizontal ? plot.bottom : plot.right;
+    const [valueStart, valueEnd] = scale.range();
+
+    // Value axis and gridlines
+    const ticks = hasBars ? scale.ticks(layout.tickCount) : [];
+    const gridlines = style.showGridlines
+        ? ticks.map(tick => line(categoryStart - 10, scale(tick), categoryEnd, scale(tick), foreground(style.gridlineColor), 1))
+        : [];
+    const axisColor = foreground(style.axisColor);
+    const onRight = style.valueAxisOnRight;
+    const axisLabels = !style.showValueAxis ? [] : ticks.map(tick => horizontal
+        ? text(scale(tick), onRight ? plot.top - 8 : plot.bottom + 8, style.formatValue(tick), "middle", axisColor, style.axisFontSize, onRight ? null : "0.71em")
+        : text(onRight ? plot.right + 4 : plot.left - 14, scale(tick), style.formatValue(tick), onRight ? "start" : "end", axisColor, style.axisFontSize, "0.32em"));
+    let axisTitle: SceneText | null = null;
+    if (style.showValueAxis && style.axisTitle && hasBars) {
+        const center = (valueStart + valueEnd) / 2;
+        const titleX = onRight ? width - 8 : 8;
+        axisTitle = horizontal
+            ? text(center, onRight ? 4 : height - 4, style.axisTitle, "middle", axisColor, style.axisFontSize + 1, onRight ? "0.71em" : null)
+            : text(titleX, center, style.axisTitle, "middle", axisColor, style.axisFontSize + 1, "0.71em", onRight ? 90 : -90);
+    }
+
+    const baseline = hasBars && isInRange(0)
+        ? line(categoryStart - 10, scale(0), categoryEnd, scale(0), foreground(style.baselineColor), 1)
+        : null;
+
+    // Zone separators between zones and between waterfall and plain bars; titles over each zone
+    const separators: SceneLine[] = [];
+    const zoneTitles: SceneText[] = [];
+    const separatorColor = foreground(style.separatorColor);
+    let zoneStart = 0;
+    for (let i = 1; i <= layout.bars.length; i++) {
+        const bars = layout.bars;
+        const zoneEnds = i === bars.length || bars[i].zoneIndex !== bars[i - 1].zoneIndex;
+        const kindChanges = i < bars.length && (bars[i].barType === "bar") !== (bars[i - 1].barType === "bar");
+        if (!zoneEnds && !kindChanges) {
+            continue;
+        }
+        if (i < bars.length) {
+            const position = (bars[i - 1].slotPosition + bars[i].slotPosition + slotWidth) / 2;
+            separators.push(line(position, valueStart, position, valueEnd, separatorColor, 2, "6,4"));
+        }
+        if (!zoneEnds) {
+            continue;
+        }
+        const title = input.bars[zoneStart].zone;
+        if (style.showZoneTitles && title) {
+            const center = (bars[zoneStart].slotPosition + bars[i - 1].slotPosition + slotWidth) / 2;
+            zoneTitles.push(horizontal
+                ? text(width - 6, center, title, "middle", separatorColor, style.fontSize + 1, null, 90)
+                : text(center, 16, title, "middle", separatorColor, style.fontSize + 1));
+        }
+        zoneStart = i;
+    }
+
+    // Comparison bars: a translucent dashed ghost behind the main bar, or a solid bar beside it
+    const ghost = (input.settings.comparisonStyle || "ghost") === "ghost";
+    const comparisons: SceneComparison[] = [];
+    layout.bars.forEach((bar, index) => {
+        if (bar.comparison) {
+            const color = style.comparisonColor;
+            comparisons.push({
+                index,
+                rect: rect(bar.comparison.position, bar.comparison.startY, bar.comparison.endY),
+                fill: background(color),
+                fillOpacity: ghost && !style.highContrast ? 0.45 : null,
+                stroke: style.highContrast ? foreground(color) : ghost ? color : null,
+                strokeWidth: style.highContrast || ghost ? 1 : null,
+                dash: ghost ? "3,2" : null
+            });
+        }
+    });
+
+    // Bar shapes. Outline-only shapes keep a transparent fill, so the hollow still takes clicks.
+    const border = style.borderWidth > 0 ? foreground(style.borderColor) : null;
+    const outlined = (color: string): Pick<SceneShape, "fill" | "stroke" | "strokeWidth"> => ({
+        fill: style.highContrast ? style.highContrast.background : "transparent",
+        stroke: color,
+        strokeWidth: Math.max(style.borderWidth, 1.5)
+    });
+    const bars = layout.bars.map((bar, index): SceneBar => {
+        const source = input.bars[index];
+        const fill = resolveBarFill(source, bar.variance, style);
+        const outline = fill.fillStyle === "outline";
+        const shapes: SceneShape[] = bar.stacked
+            ? bar.segments.map((segment, s): SceneShape => {
+                const color = foreground(source.segments[s].color || fill.color);
+                return {
+                    segment: s,
+                    from: segment.startY,
+                    to: segment.endY,
+                    rect: rect(bar.position, segment.startY, segment.endY),
+                    ...(outline ? outlined(color) : {
+                        fill: color,
+                        stroke: border || background("#FFFFFF"),
+                        strokeWidth: border ? style.borderWidth : 0.5
+                    }),
+                    patternId: fill.patternId
+                };
+            })
+            : [{
+                segment: -1,
+                from: bar.startY,
+                to: bar.endY,
+                rect: rect(bar.position, bar.startY, bar.endY),
+                ...(outline ? outlined(style.highContrast ? style.highContrast.foreground : fill.color) : {
+                    fill: fill.color,
+                    stroke: border || (style.highContrast ? style.highContrast.foreground : null),
+                    strokeWidth: border ? style.borderWidth : null
+                }),
+                patternId: fill.patternId
+            }];
+        return { category: bar.category, barType: bar.barType, fill, shapes };
+    });
+
+    // Patterns the bars use, in the pattern color
+    const patternColor = foreground(style.patternColor);
+    const patternOpacity = style.highContrast ? 1 : style.patternOpacity;
+    const spacing = style.patternSpacing;
+    const patternLine = (x1: number, y1: number, x2: number, y2: number): SceneLine =>
+        ({ x1, y1, x2, y2, color: patternColor, width: 2, dash: null });
+    const usedPatterns = new Set(bars.map(bar => bar.fill.fillStyle));
+    const patterns: ScenePattern[] = PATTERN_FILLS.filter(fillStyle => usedPatterns.has(fillStyle)).map(fillStyle => ({
+        id: `fill-${fillStyle}`,
+        size: spacing,
+        rotation: fillStyle === "dots" ? 0 : 45,
+        color: patternColor,
+        opacity: patternOpacity,
+        circles: fillStyle === "dots" ? [{ cx: spacing / 2, cy: spacing / 2, r: Math.max(spacing / 4, 1) }] : [],
+        lines: fillStyle === "stripes" ? [patternLine(0, 0, 0, spacing)]
+            : fillStyle === "crosshatch" ? [patternLine(0, 0, 0, spacing), patternLine(0, 0, spacing, 0)]
+            : []
+    }));
+
+    // Target markers across the bars, a little wider than the bar so they read on top of it
+    const overhang = Math.min(barWidth * 0.15, 6);
+    const targets: SceneBarLine[] = [];
+    if (style.showTargets) {
+        layout.bars.forEach((bar, index) => {
+            if (bar.targetY !== null && isInRange(bar.targetY)) {
+                const overTarget = style.overTargetColor !== null && bar.variance !== null && bar.variance > 0;
+                const color = foreground(overTarget ? style.overTargetColor : style.targetColor);
+                const marker = line(bar.position - overhang, scale(bar.targetY), bar.position + barWidth + overhang, scale(bar.targetY), color, 2.5);
+                targets.push({ ...marker, from: index, to: index });
+            }
+        });
+    }
+
+    // Connectors between waterfall bars of the same zone, unless a total just reset the running total
+    const connectors: SceneBarLine[] = [];
+    if (style.showConnectors) {
+        for (let i = 0; i < layout.bars.length - 1; i++) {
+            const current = layout.bars[i];
+            const next = layout.bars[i + 1];
+            const isReset = current.barType === "total" && input.settings.resetAfterTotal;
+            if (current.barType === "bar" || next.barType === "bar" || current.zoneIndex !== next.zoneIndex || isReset || !isInRange(current.endY)) {
+                continue;
+            }
+            const from = layout.rightToLeft ? current.position : current.position + barWidth;
+            const to = layout.rightToLeft ? next.slotPosition + slotWidth : next.slotPosition;
+            const connector = line(from, scale(current.endY), to, scale(current.endY), foreground(style.connectorColor), 1.5, "4,3");
+            connectors.push({ ...connector, from: i, to: i + 1 });
+        }
+    }
+
+    // Value labels beyond the bar's outer end, on the side it grows towards; subtotals and totals show what they draw
+    const labelColor = foreground(style.textColor);
+    const valueLabels = layout.bars.map((bar): SceneValueLabel => {
+        const isDecrease = bar.endY < bar.startY;
+        const anchorValue = isDecrease ? bar.extent[0] : bar.extent[1];
+        const anchorPx = scale(anchorValue);
+        const center = bar.position + barWidth / 2;
+        const value = style.formatValue(bar.barType === "subtotal" || bar.barType === "total" ? bar.endY : bar.totalValue);
+        const label = horizontal
+            ? text(anchorPx + (isDecrease ? -5 : 5), center, value, isDecrease ? "end" : "start", labelColor, style.fontSize, "0.32em")
+            : text(center, isDecrease ? anchorPx + style.fontSize + 3 : anchorPx - 5, value, "middle", labelColor, style.fontSize);
+        return { ...label, anchorValue, isDecrease, hidden: !style.showValues || !isInRange(anchorValue) };
+    });
+
+    // Category labels below the plot, or left of it when horizontal
+    const categoryColor = foreground(style.categoryColor);
+    const categoryLabels = !style.showCategoryLabels ? [] : layout.bars.map(bar => {
+        const center = bar.slotPosition + slotWidth / 2;
+        return horizontal
+            ? text(plot.left - 8, center, bar.category, "end", categoryColor, style.categoryFontSize, "0.32em")
+            : text(center, plot.bottom + 15, bar.category, "middle", categoryColor, style.categoryFontSize);
+    });
+
+    return {
+        width, height, cornerRadius: style.cornerRadius, fontFamily: style.fontFamily, patterns,
+        gridlines, axisLabels, axisTitle, baseline, separators, zoneTitles,
+        comparisons, bars, targets, connectors, valueLabels, categoryLabels
+    };
+}
+
+// --- Static SVG ---
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Standalone SVG document for a computed layout, written from the same scene
+ * the visual draws. No scripts, no interaction.
+ */
+export function renderWaterfallSvg(
+    input: WaterfallInput,
+    layout: WaterfallLayout,
+    style: Partial<SceneStyle> = {}
+): string {
+    const scene = buildWaterfallScene(input, layout, style);
+    const round = (value: number): string => String(Math.round(value * 100) / 100);
+    const attributes = (values: Record<string, string | number | null>): string => Object.keys(values)
+        .filter(name => values[name] !== null)
+        .map(name => ` ${name}="${escapeXml(typeof values[name] === "number" ? round(values[name] as number) : String(values[name]))}"`)
+        .join("");
+    const lineOf = (line: SceneLine, extra: Record<string, string | number | null> = {}): string => `<line${attributes({
+        x1: line.x1, y1: line.y1, x2: line.x2, y2: line.y2,
+        stroke: line.color, "stroke-width": line.width, "stroke-dasharray": line.dash, ...extra
+    })}/>`;
+    const rectOf = (rect: SceneRect, extra: Record<string, string | number | null>): string => `<rect${attributes({
+        x: rect.x, y: rect.y, width: rect.width, height: rect.height, rx: scene.cornerRadius || null, ...extra
+    })}/>`;
+    const textOf = (text: SceneText): string => `<text${attributes({
+        x: text.x, y: text.y, dy: text.dy, "text-anchor": text.anchor,
+        transform: text.rotation ? `rotate(${text.rotation}, ${round(text.x)}, ${round(text.y)})` : null,
+        "font-size": text.fontSize, fill: text.color
+    })}>${escapeXml(text.text)}</text>`;
+    const group = (className: string, items: string[], extra: Record<string, string | number | null> = {}): string[] =>
+        items.length > 0 ? [`<g${attributes({ class: className, ...extra })}>`, ...items, `</g>`] : [];
+
+    const parts: string[] = [];
+    parts.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`);
+
+    if (scene.patterns.length > 0) {
+        parts.push(`<defs>`);
+        for (const pattern of scene.patterns) {
+            parts.push(`<pattern${attributes({
+                id: pattern.id, width: pattern.size, height: pattern.size, patternUnits: "userSpaceOnUse",
+                patternTransform: pattern.rotation ? `rotate(${pattern.rotation})` : null
+            })}>`);
+            for (const circle of pattern.circles) {
+                parts.push(`<circle${attributes({ ...circle, fill: pattern.color, opacity: pattern.opacity })}/>`);
+            }
+            for (const line of pattern.lines) {
+                parts.push(lineOf(line, { opacity: pattern.opacity }));
+            }
+            parts.push(`</pattern>`);
+        }
+        parts.push(`</defs>`);
+    }
+
+    const fontFamily = { "font-family": scene.fontFamily };
+    parts.push(...group("gridlines", scene.gridlines.map(line => lineOf(line))));
+    parts.push(...group("value-axis", [...scene.axisLabels, ...(scene.axisTitle ? [scene.axisTitle] : [])].map(textOf), fontFamily));
+    if (scene.baseline) {
+        parts.push(lineOf(scene.baseline, { class: "baseline" }));
+    }
+    parts.push(...group("zones", [...scene.separators.map(line => lineOf(line)), ...scene.zoneTitles.map(textOf)], fontFamily));
+
+    // Comparison bars, behind the main bars
+    parts.push(...group("comparison", scene.comparisons.map(comparison => rectOf(comparison.rect, {
+        fill: comparison.fill, "fill-opacity": comparison.fillOpacity,
+        stroke: comparison.stroke, "stroke-width": comparison.strokeWidth, "stroke-dasharray": comparison.dash
+    }))));
+
+    // Bars, each shape under its pattern overlay
+    parts.push(`<g class="bars">`);
+    for (const bar of scene.bars) {
+        parts.push(`<g class="bar bar-type-${bar.barType}">`);
+        for (const shape of bar.shapes) {
+            parts.push(rectOf(shape.rect, { fill: shape.fill, stroke: shape.stroke, "stroke-width": shape.strokeWidth }));
+            if (shape.patternId) {
+                parts.push(rectOf(shape.rect, { fill: `url(#${shape.patternId})` }));
+            }
+        }
+        parts.push(`</g>`);
+    }
+    parts.push(`</g>`);
+
+    parts.push(...group("targets", scene.targets.map(line => lineOf(line, { "stroke-linecap": "round" }))));
+    parts.push(...group("connectors", scene.connectors.map(line => lineOf(line))));
+    parts.push(...group("value-labels", scene.valueLabels.filter(label => !label.hidden).map(textOf), fontFamily));
+    parts.push(...group("category-labels", scene.categoryLabels.map(textOf), fontFamily));
+
+    parts.push(`</svg>`);
+    return parts.join("");
+}
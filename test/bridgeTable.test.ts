@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { BridgeTable, toCsv, toCsvField } from "../src/bridgeTable";
+
+describe("toCsvField", () => {
+    it("writes numbers as-is and blanks as empty fields", () => {
+        assert.equal(toCsvField(-12.5), "-12.5");
+        assert.equal(toCsvField(0), "0");
+        assert.equal(toCsvField(null), "");
+        assert.equal(toCsvField(NaN), "");
+    });
+
+    it("quotes text holding separators, quotes or line breaks", () => {
+        assert.equal(toCsvField("Sales"), "Sales");
+        assert.equal(toCsvField("Sales, EMEA"), "\"Sales, EMEA\"");
+        assert.equal(toCsvField("The \"Q1\" bridge"), "\"The \"\"Q1\"\" bridge\"");
+        assert.equal(toCsvField("Line 1\nLine 2"), "\"Line 1\nLine 2\"");
+    });
+
+    it("keeps spreadsheets from reading text as a formula", () => {
+        assert.equal(toCsvField("=SUM(A1:A3)"), "'=SUM(A1:A3)");
+        assert.equal(toCsvField("-Returns"), "'-Returns");
+        assert.equal(toCsvField("@total"), "'@total");
+    });
+});
+
+describe("toCsv", () => {
+    it("writes a header row and one line per row with CRLF endings", () => {
+        const table: BridgeTable = {
+            columns: [
+                { title: "Category", numeric: false },
+                { title: "Start", numeric: true },
+                { title: "End", numeric: true }
+            ],
+            rows: [
+                ["Opening", 0, 100],
+                ["Costs", 100, 70],
+                ["Plan", null, 90]
+            ]
+        };
+
+        assert.equal(toCsv(table), "Category,Start,End\r\nOpening,0,100\r\nCosts,100,70\r\nPlan,,90\r\n");
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+
+import {
+    LabelCandidate,
+    getContrastColor,
+    isTruncated,
+    measureTextWidth,
+    placeLabels,
+    rectsOverlap,
+    truncateText,
+    wrapText
+} from "../src/labelLayout";
+
+// Text is measured on a canvas, which jsdom lacks: stand in with a monospaced
+// font where every character is half the font size wide
+const dom = new JSDOM("<!DOCTYPE html><body></body>");
+dom.window.HTMLCanvasElement.prototype.getContext = function () {
+    return {
+        font: "",
+        measureText(text: string) {
+            const fontSize = Number(/(\d+(?:\.\d+)?)px/.exec(this.font)?.[1] || 10);
+            return { width: text.length * fontSize / 2 };
+        }
+    };
+} as never;
+Object.assign(globalThis, { window: dom.window, document: dom.window.document });
+
+const slot = (centerX: number, centerY: number) => ({ centerX, centerY, color: "#333333" });
+
+function candidate(text: string, priority: number, slots: { centerX: number; centerY: number; color: string }[]): LabelCandidate {
+    return { text, fontSize: 10, priority, slots };
+}
+
+describe("truncateText", () => {
+    it("keeps text that fits", () => {
+        assert.equal(truncateText("Sales", 10, 50), "Sales");
+    });
+
+    it("shortens text with an ellipsis to fit the width", () => {
+        const text = truncateText("Long category name", 10, 50);
+
+        assert.ok(isTruncated(text));
+        assert.ok(measureTextWidth(text, 10) <= 50);
+    });
+});
+
+describe("wrapText", () => {
+    it("breaks between words", () => {
+        assert.deepEqual(wrapText("Net sales", 10, 30, 2), ["Net", "sales"]);
+    });
+
+    it("puts the words left over on the last line, truncated", () => {
+        const lines = wrapText("Net sales growth", 10, 40, 2);
+
+        assert.equal(lines.length, 2);
+        assert.equal(lines[0], "Net");
+        assert.ok(isTruncated(lines[1]));
+    });
+
+    it("returns no more than maxLines lines", () => {
+        const lines = wrapText("Net sales growth", 10, 40, 1);
+
+        assert.equal(lines.length, 1);
+        assert.ok(isTruncated(lines[0]));
+    });
+
+    it("returns no lines for blank text", () => {
+        assert.deepEqual(wrapText("  ", 10, 40, 2), []);
+    });
+});
+
+describe("placeLabels", () => {
+    const bounds = { x: 0, y: 0, width: 200, height: 100 };
+
+    it("gives the contested slot to the higher priority label", () => {
+        const low = candidate("Low", 0, [slot(50, 50), slot(50, 80)]);
+        const high = candidate("High", 1, [slot(50, 50)]);
+
+        const placed = placeLabels([low, high], bounds);
+
+        assert.equal(placed[0].candidate, low);
+        assert.deepEqual(placed[0].slot, slot(50, 80));
+        assert.deepEqual(placed[1].slot, slot(50, 50));
+    });
+
+    it("hides a label when every slot collides or leaves the bounds", () => {
+        const first = candidate("First", 1, [slot(50, 50)]);
+        const second = candidate("Second", 0, [slot(52, 50), slot(199, 50)]);
+
+        const placed = placeLabels([first, second], bounds);
+
+        assert.equal(placed[1].slot, null);
+    });
+
+    it("keeps labels clear of obstacles", () => {
+        const label = candidate("Value", 0, [slot(50, 50), slot(150, 50)]);
+
+        const placed = placeLabels([label], bounds, [{ x: 40, y: 40, width: 20, height: 20 }]);
+
+        assert.deepEqual(placed[0].slot, slot(150, 50));
+    });
+});
+
+describe("rectsOverlap", () => {
+    it("counts rectangles within the padding as overlapping", () => {
+        const a = { x: 0, y: 0, width: 10, height: 10 };
+        const b = { x: 11, y: 0, width: 10, height: 10 };
+
+        assert.equal(rectsOverlap(a, b), false);
+        assert.equal(rectsOverlap(a, b, 2), true);
+    });
+});
+
+describe("getContrastColor", () => {
+    it("picks dark text on light fills and light text on dark fills", () => {
+        assert.equal(getContrastColor("#FFFFFF"), "#333333");
+        assert.equal(getContrastColor("#FFC000"), "#333333");
+        assert.equal(getContrastColor("#1F77B4"), "#FFFFFF");
+        assert.equal(getContrastColor("#000"), "#FFFFFF");
+    });
+
+    it("uses the given colors", () => {
+        assert.equal(getContrastColor("#000000", "black", "white"), "white");
+    });
+
+    it("falls back to dark text for fills it cannot read", () => {
+        assert.equal(getContrastColor("red"), "#333333");
+        assert.equal(getContrastColor(""), "#333333");
+    });
+});
@@ -0,0 +1,755 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+
+import {
+    BridgeBarKind,
+    FoldableBar,
+    WaterfallBarInput,
+    WaterfallInput,
+    WaterfallSettings,
+    DEFAULT_SCENE_STYLE,
+    addBridgeEnds,
+    buildWaterfallScene,
+    computeComparisonTotals,
+    computeRunningTotals,
+    computeWaterfallLayout,
+    createValueScale,
+    escapeXml,
+    foldSmallSteps,
+    getZoneIndexes,
+    insertHierarchySubtotals,
+    renderWaterfallSvg,
+    resolveBarFill,
+    sortDrivers,
+    stackSegments,
+    sumFoldedSteps
+} from "../src/waterfallLayout";
+
+const settings: WaterfallSettings = {
+    orientation: "vertical",
+    barWidth: 40,
+    barGap: 10,
+    resetAfterTotal: false,
+    rangeMin: null,
+    rangeMax: null,
+    negativeLabelSpace: 0
+};
+
+function createInput(bars: WaterfallBarInput[], overrides: Partial<WaterfallSettings> = {}): WaterfallInput {
+    return {
+        bars,
+        settings: { ...settings, ...overrides },
+        viewport: { width: 600, height: 400 },
+        margin: { top: 30, right: 20, bottom: 60, left: 50 }
+    };
+}
+
+function parseSvg(svg: string): Document {
+    return new JSDOM(svg, { contentType: "image/svg+xml" }).window.document;
+}
+
+const bridge: WaterfallBarInput[] = [
+    { category: "Opening", barType: "start", value: 100 },
+    { category: "Sales", barType: "step", value: 40 },
+    { category: "Costs", barType: "step", value: -70 },
+    { category: "Q1", barType: "subtotal", value: 0 },
+    { category: "Other", barType: "step", value: 10 },
+    { category: "Closing", barType: "total", value: 0 }
+];
+
+describe("computeRunningTotals", () => {
+    it("moves the running total with steps and shows it on subtotals and totals", () => {
+        const bars = computeRunningTotals(bridge, false);
+        const spans = bars.map(bar => [bar.startY, bar.endY]);
+
+        assert.deepEqual(spans, [
+            [0, 100],
+            [100, 140],
+            [140, 70],
+            [0, 70],
+            [70, 80],
+            [0, 80]
+        ]);
+    });
+
+    it("does not move the running total on subtotals", () => {
+        const bars = computeRunningTotals([
+            { category: "A", barType: "step", value: 5 },
+            { category: "Sub", barType: "subtotal", value: 999 },
+            { category: "B", barType: "step", value: 5 }
+        ], false);
+
+        assert.equal(bars[1].endY, 5);
+        assert.deepEqual([bars[2].startY, bars[2].endY], [5, 10]);
+    });
+
+    it("restarts after a total only when resetAfterTotal is set", () => {
+        const input: WaterfallBarInput[] = [
+            { category: "A", barType: "step", value: 10 },
+            { category: "Total", barType: "total", value: 0 },
+            { category: "B", barType: "step", value: 5 }
+        ];
+
+        assert.equal(computeRunningTotals(input, false)[2].startY, 10);
+        assert.equal(computeRunningTotals(input, true)[2].startY, 0);
+    });
+
+    it("draws a total with ownValue at its own value and continues from it", () => {
+        const bars = computeRunningTotals([
+            { category: "Opening", barType: "start", value: 100 },
+            { category: "Price", barType: "step", value: 10 },
+            { category: "Closing", barType: "total", value: 115, ownValue: true },
+            { category: "After", barType: "step", value: 5 }
+        ], false);
+
+        assert.equal(bars[2].endY, 115);
+        assert.deepEqual([bars[3].startY, bars[3].endY], [115, 120]);
+    });
+
+    it("draws plain bars from zero without touching the running total", () => {
+        const bars = computeRunningTotals([
+            { category: "A", barType: "step", value: 10 },
+            { category: "Plan", barType: "bar", value: 25 },
+            { category: "B", barType: "step", value: 5 }
+        ], false);
+
+        assert.deepEqual([bars[1].startY, bars[1].endY], [0, 25]);
+        assert.deepEqual([bars[2].startY, bars[2].endY], [10, 15]);
+    });
+
+    it("starts every zone from zero", () => {
+        const bars = computeRunningTotals([
+            { category: "A", barType: "step", value: 10, zoneIndex: 0 },
+            { category: "B", barType: "step", value: 5, zoneIndex: 1 }
+        ], false);
+
+        assert.deepEqual([bars[1].startY, bars[1].endY], [0, 5]);
+    });
+
+    it("lets the running total go below zero", () => {
+        const bars = computeRunningTotals([
+            { category: "Loss", barType: "step", value: -30 },
+            { category: "Gain", barType: "step", value: 10 },
+            { category: "Net", barType: "total", value: 0 }
+        ], false);
+
+        assert.deepEqual([bars[0].startY, bars[0].endY], [0, -30]);
+        assert.deepEqual([bars[1].startY, bars[1].endY], [-30, -20]);
+        assert.deepEqual([bars[2].startY, bars[2].endY], [0, -20]);
+        assert.deepEqual(bars[2].extent, [-20, 0]);
+    });
+
+    it("places step targets at the cumulative position and reports variance", () => {
+        const bars = computeRunningTotals([
+            { category: "Opening", barType: "start", value: 100, target: 90 },
+            { category: "IT", barType: "step", value: 40, target: 30 },
+            { category: "HR", barType: "step", value: 10 },
+            { category: "Closing", barType: "total", value: 0, target: 160 }
+        ], false);
+
+        assert.deepEqual(bars.map(bar => bar.targetY), [90, 130, null, 160]);
+        assert.deepEqual(bars.map(bar => bar.variance), [10, 10, null, -10]);
+    });
+
+    it("returns no bars for empty input", () => {
+        assert.deepEqual(computeRunningTotals([], false), []);
+    });
+});
+
+describe("getZoneIndexes", () => {
+    it("starts a new zone only where the Zone value changes", () => {
+        assert.deepEqual(getZoneIndexes(["", "", "2024", "2024", ""]), [0, 0, 1, 1, 2]);
+    });
+
+    it("carries the running total across a plain bar between steps", () => {
+        const bars: WaterfallBarInput[] = [
+            { category: "A", barType: "step", value: 10 },
+            { category: "Plan", barType: "bar", value: 25 },
+            { category: "B", barType: "step", value: 5 }
+        ];
+        const zoneIndexes = getZoneIndexes(["", "", ""]);
+
+        const result = computeRunningTotals(bars.map((bar, i) => ({ ...bar, zoneIndex: zoneIndexes[i] })), false);
+
+        assert.deepEqual(result.map(bar => [bar.startY, bar.endY]), [[0, 10], [0, 25], [10, 15]]);
+    });
+});
+
+describe("stackSegments", () => {
+    it("grows positive and negative segments away from the bar start", () => {
+        const segments = stackSegments([{ value: 20 }, { value: -5 }, { value: 10 }, { value: -15 }], 100);
+
+        assert.deepEqual(segments.map(segment => [segment.startY, segment.endY]), [
+            [100, 120],
+            [100, 95],
+            [120, 130],
+            [95, 80]
+        ]);
+    });
+
+    it("covers the segments in a stacked bar's extent", () => {
+        const [bar] = computeRunningTotals([
+            { category: "Mixed", barType: "step", value: 5, segments: [{ value: 20 }, { value: -15 }] }
+        ], false);
+
+        assert.equal(bar.stacked, true);
+        assert.deepEqual(bar.extent, [-15, 20]);
+    });
+
+    it("ignores segments in the extent of a solid bar", () => {
+        const [bar] = computeRunningTotals([
+            { category: "Mixed", barType: "step", value: 5, segments: [{ value: 20 }, { value: -15 }], solid: true }
+        ], false);
+
+        assert.equal(bar.stacked, false);
+        assert.deepEqual(bar.extent, [0, 5]);
+    });
+});
+
+describe("computeComparisonTotals", () => {
+    it("runs the comparison scenario's own running total", () => {
+        const comparisons = computeComparisonTotals([
+            { category: "Opening", barType: "start", value: 100, comparison: 80 },
+            { category: "Sales", barType: "step", value: 40, comparison: 60 },
+            { category: "Costs", barType: "step", value: -30 },
+            { category: "Closing", barType: "total", value: 0 }
+        ], false);
+
+        assert.deepEqual(comparisons.map(bar => [bar.startY, bar.endY]), [
+            [0, 80],
+            [80, 140],
+            [140, 140],
+            [0, 140]
+        ]);
+    });
+
+    it("returns null when no bar has a comparison value", () => {
+        assert.equal(computeComparisonTotals(bridge, false), null);
+    });
+});
+
+describe("insertHierarchySubtotals", () => {
+    interface Row {
+        category: string;
+        barType: WaterfallBarInput["barType"];
+        parents: string[];
+    }
+
+    const createSubtotal = (last: Row, level: number): Row => ({
+        category: `${last.parents[level]} subtotal`,
+        barType: "subtotal",
+        parents: last.parents.slice(0, level)
+    });
+
+    it("closes every nested group with a subtotal, innermost first", () => {
+        const rows: Row[] = [
+            { category: "Berlin", barType: "step", parents: ["EMEA", "Germany"] },
+            { category: "Munich", barType: "step", parents: ["EMEA", "Germany"] },
+            { category: "Paris", barType: "step", parents: ["EMEA", "France"] },
+            { category: "Boston", barType: "step", parents: ["Americas", "USA"] }
+        ];
+
+        const result = insertHierarchySubtotals(rows, 2, createSubtotal);
+
+        assert.deepEqual(result.map(row => row.category), [
+            "Berlin", "Munich", "Germany subtotal",
+            "Paris", "France subtotal", "EMEA subtotal",
+            "Boston", "USA subtotal", "Americas subtotal"
+        ]);
+        assert.deepEqual(result[5].parents, []);
+        assert.deepEqual(result[4].parents, ["EMEA"]);
+    });
+
+    it("skips groups that do not move the running total", () => {
+        const rows: Row[] = [
+            { category: "Headcount", barType: "bar", parents: ["Info"] },
+            { category: "Sales", barType: "step", parents: ["Bridge"] }
+        ];
+
+        const result = insertHierarchySubtotals(rows, 1, createSubtotal);
+
+        assert.deepEqual(result.map(row => row.category), ["Headcount", "Sales", "Bridge subtotal"]);
+    });
+
+    it("adds no subtotals with a single category level", () => {
+        const rows: Row[] = [
+            { category: "Sales", barType: "step", parents: [] },
+            { category: "Costs", barType: "step", parents: [] }
+        ];
+
+        assert.deepEqual(insertHierarchySubtotals(rows, 0, createSubtotal), rows);
+    });
+});
+
+describe("foldSmallSteps", () => {
+    interface Row extends FoldableBar {
+        category: string;
+    }
+
+    const row = (category: string, barType: Row["barType"], totalValue: number): Row => ({
+        category,
+        barType,
+        isGenerated: false,
+        totalValue,
+        highlightValue: null,
+        comparisonValue: null,
+        target: null,
+        stackedValues: []
+    });
+    const createOthers = (folded: Row[]): Row => ({
+        ...row("Others", "step", folded.reduce((sum, bar) => sum + bar.totalValue, 0)),
+        isGenerated: true
+    });
+
+    it("keeps every step at or under the limit, and with a limit of 0", () => {
+        const rows = [row("Opening", "start", 100), row("A", "step", 5), row("B", "step", -3)];
+
+        for (const maxSteps of [0, 2, 3]) {
+            const fold = foldSmallSteps(rows, maxSteps, createOthers);
+            assert.equal(fold.bars, rows);
+            assert.deepEqual([fold.kept, fold.steps], [2, 2]);
+        }
+    });
+
+    it("folds the smallest steps into one Others step per run, at the end of the run", () => {
+        const rows = [
+            row("Opening", "start", 100),
+            row("A", "step", 2),
+            row("B", "step", -50),
+            row("C", "step", 3),
+            row("Q1", "subtotal", 0),
+            row("D", "step", 1),
+            row("E", "step", 40),
+            row("Closing", "total", 0)
+        ];
+
+        const fold = foldSmallSteps(rows, 2, createOthers);
+
+        assert.deepEqual(fold.bars.map(bar => `${bar.category}:${bar.totalValue}`), [
+            "Opening:100", "B:-50", "Others:5", "Q1:0", "E:40", "Others:1", "Closing:0"
+        ]);
+        assert.deepEqual([fold.kept, fold.steps], [2, 5]);
+    });
+
+    it("never folds generated steps", () => {
+        const generated = { ...row("Unexplained", "step", 1), isGenerated: true };
+        const rows = [row("A", "step", 10), generated, row("B", "step", 2), row("C", "step", 3)];
+
+        const fold = foldSmallSteps(rows, 1, createOthers);
+
+        assert.deepEqual(fold.bars.map(bar => bar.category), ["A", "Unexplained", "Others"]);
+        assert.deepEqual([fold.kept, fold.steps], [1, 3]);
+    });
+});
+
+describe("sumFoldedSteps", () => {
+    const segment = (measureName: string, value: number, highlight: number | null = null) => ({ measureName, value, highlight });
+
+    it("merges stacked values by measure and drops those that cancel", () => {
+        const sums = sumFoldedSteps([
+            { barType: "step", isGenerated: false, totalValue: 7, highlightValue: 3, comparisonValue: null, target: null,
+                stackedValues: [segment("Price", 5, 2), segment("Volume", 2, 1)] },
+            { barType: "step", isGenerated: false, totalValue: -3, highlightValue: 0, comparisonValue: null, target: null,
+                stackedValues: [segment("Volume", -2, 0), segment("Mix", -1, 0), segment("Price", -0, 0)] }
+        ]);
+
+        assert.equal(sums.totalValue, 4);
+        assert.equal(sums.highlightValue, 3);
+        assert.deepEqual(sums.stackedValues, [segment("Price", 5, 2), segment("Mix", -1, 0)]);
+    });
+
+    it("sums comparison values and targets, keeping null when no step has one", () => {
+        const bar = (comparisonValue: number | null, target: number | null): FoldableBar => ({
+            barType: "step", isGenerated: false, totalValue: 1, highlightValue: null, comparisonValue, target, stackedValues: []
+        });
+
+        const sums = sumFoldedSteps([bar(4, null), bar(null, null), bar(-1, null)]);
+
+        assert.equal(sums.comparisonValue, 3);
+        assert.equal(sums.target, null);
+        assert.equal(sums.highlightValue, null);
+    });
+
+    it("does not change the folded steps' own segments", () => {
+        const price = segment("Price", 5);
+        sumFoldedSteps([
+            { barType: "step", isGenerated: false, totalValue: 5, highlightValue: null, comparisonValue: null, target: null, stackedValues: [price] },
+            { barType: "step", isGenerated: false, totalValue: 1, highlightValue: null, comparisonValue: null, target: null,
+                stackedValues: [segment("Price", 1)] }
+        ]);
+
+        assert.equal(price.value, 5);
+    });
+});
+
+describe("sortDrivers", () => {
+    const drivers = [
+        { category: "Price", totalValue: 5, parents: ["Revenue"] },
+        { category: "Volume", totalValue: -20, parents: ["Revenue"] },
+        { category: "Freight", totalValue: 8, parents: ["Costs"] },
+        { category: "Energy", totalValue: -30, parents: ["Costs"] }
+    ];
+
+    it("keeps data order", () => {
+        const sorted = sortDrivers(drivers, "data");
+
+        assert.deepEqual(sorted.map(bar => bar.category), ["Price", "Volume", "Freight", "Energy"]);
+        assert.notEqual(sorted, drivers);
+    });
+
+    it("puts the largest impact first within each parent", () => {
+        assert.deepEqual(sortDrivers(drivers, "impact").map(bar => bar.category), ["Volume", "Price", "Energy", "Freight"]);
+    });
+
+    it("sorts by name within each parent", () => {
+        assert.deepEqual(sortDrivers(drivers, "name", "en-US").map(bar => bar.category), ["Price", "Volume", "Energy", "Freight"]);
+    });
+
+    it("sorts across all drivers without a hierarchy", () => {
+        const flat = drivers.map(bar => ({ ...bar, parents: [] }));
+
+        assert.deepEqual(sortDrivers(flat, "impact").map(bar => bar.category), ["Energy", "Volume", "Freight", "Price"]);
+    });
+});
+
+describe("addBridgeEnds", () => {
+    interface Row {
+        category: string;
+        barType: WaterfallBarInput["barType"];
+        totalValue: number;
+        sequence: number;
+    }
+
+    const kinds: Record<BridgeBarKind, Row["barType"]> = { opening: "start", unexplained: "step", closing: "total" };
+    const createBar = (kind: BridgeBarKind, value: number): Row => ({
+        category: kind,
+        barType: kinds[kind],
+        totalValue: kind === "closing" ? 0 : value,
+        sequence: 0
+    });
+    const drivers: Row[] = [
+        { category: "Price", barType: "step", totalValue: 20, sequence: 7 },
+        { category: "Costs", barType: "step", totalValue: -5, sequence: 3 }
+    ];
+
+    it("wraps the drivers in opening and closing bars, numbered as drawn", () => {
+        const bridge = addBridgeEnds(drivers, 100, 115, true, createBar);
+
+        assert.deepEqual(bridge.bars.map(bar => `${bar.sequence}:${bar.category}`), ["1:opening", "2:Price", "3:Costs", "4:closing"]);
+        assert.equal(bridge.hiddenGap, 0);
+        assert.equal(drivers[0].sequence, 7);
+    });
+
+    it("treats a gap within the tolerance as rounding noise", () => {
+        const bridge = addBridgeEnds(drivers, 100, 115 + 1e-8, true, createBar);
+
+        assert.deepEqual(bridge.bars.map(bar => bar.category), ["opening", "Price", "Costs", "closing"]);
+        assert.equal(bridge.hiddenGap, 0);
+    });
+
+    it("adds an Unexplained step before the closing bar for a larger gap", () => {
+        const bridge = addBridgeEnds(drivers, 100, 118, true, createBar);
+
+        assert.deepEqual(bridge.bars.map(bar => bar.category), ["opening", "Price", "Costs", "unexplained", "closing"]);
+        assert.equal(bridge.bars[3].totalValue, 3);
+        assert.equal(bridge.hiddenGap, 0);
+    });
+
+    it("reports the gap instead of drawing it when showUnexplained is off", () => {
+        const bridge = addBridgeEnds(drivers, 100, 112, false, createBar);
+
+        assert.deepEqual(bridge.bars.map(bar => bar.category), ["opening", "Price", "Costs", "closing"]);
+        assert.equal(bridge.hiddenGap, -3);
+    });
+});
+
+describe("computeWaterfallLayout", () => {
+    it("places bars side by side within the plot", () => {
+        const layout = computeWaterfallLayout(createInput(bridge));
+
+        assert.deepEqual(layout.plot, { left: 50, top: 30, right: 580, bottom: 340 });
+        assert.equal(layout.bars[0].position, 50);
+        const last = layout.bars[layout.bars.length - 1];
+        assert.ok(Math.abs(last.position + layout.barWidth - 580) < 1e-6);
+        assert.ok(layout.barWidth <= 80);
+    });
+
+    it("includes zero and rounds the domain to nice ticks", () => {
+        const layout = computeWaterfallLayout(createInput(bridge));
+
+        assert.equal(layout.domain[0], 0);
+        assert.ok(layout.domain[1] >= 140);
+        assert.equal(layout.clamped, false);
+    });
+
+    it("extends the domain below zero for negatives, with room for labels", () => {
+        const bars: WaterfallBarInput[] = [{ category: "Loss", barType: "step", value: -50 }];
+        const tight = computeWaterfallLayout(createInput(bars));
+        const padded = computeWaterfallLayout(createInput(bars, { negativeLabelSpace: 20 }));
+
+        assert.ok(tight.domain[0] <= -50);
+        assert.ok(padded.domain[0] <= tight.domain[0]);
+        assert.equal(tight.domain[1], 0);
+    });
+
+    it("keeps targets and reference lines inside the domain", () => {
+        const layout = computeWaterfallLayout({
+            ...createInput([{ category: "A", barType: "step", value: 10, target: 400 }]),
+            referenceValues: [-250]
+        });
+
+        assert.ok(layout.domain[1] >= 400);
+        assert.ok(layout.domain[0] <= -250);
+    });
+
+    it("puts comparison bars in the same slot and on the same scale", () => {
+        const bars: WaterfallBarInput[] = [
+            { category: "A", barType: "step", value: 10, comparison: 300 },
+            { category: "B", barType: "step", value: 5, comparison: 20 }
+        ];
+        const layout = computeWaterfallLayout(createInput(bars, { comparisonStyle: "clustered" }));
+        const [first] = layout.bars;
+
+        assert.ok(layout.domain[1] >= 320);
+        assert.equal(first.comparison.position, first.slotPosition);
+        assert.ok(first.position >= first.comparison.position + layout.barWidth);
+        assert.ok(Math.abs(first.position + layout.barWidth - (first.slotPosition + layout.slotWidth)) < 1e-6);
+    });
+
+    it("keeps the minimum bar width and overflows the plot when bars do not fit", () => {
+        const bars: WaterfallBarInput[] = Array.from({ length: 60 }, (_, i) => ({
+            category: `C${i}`, barType: "step", value: i % 2 === 0 ? 5 : -3
+        }));
+        const squeezed = computeWaterfallLayout(createInput(bars));
+        const layout = computeWaterfallLayout(createInput(bars, { minBarWidth: 12 }));
+        const plotLength = layout.plot.right - layout.plot.left;
+        const last = layout.bars[layout.bars.length - 1];
+
+        assert.equal(squeezed.scrollable, false);
+        assert.ok(squeezed.barWidth < 12);
+        assert.equal(layout.scrollable, true);
+        assert.equal(layout.barWidth, 12);
+        assert.equal(layout.barGap, 3);
+        assert.ok(layout.contentLength > plotLength);
+        assert.ok(Math.abs(last.position + layout.barWidth - (layout.plot.left + layout.contentLength)) < 1e-6);
+    });
+
+    it("fits bars in the plot when they stay above the minimum width", () => {
+        const layout = computeWaterfallLayout(createInput(bridge, { minBarWidth: 12 }));
+
+        assert.equal(layout.scrollable, false);
+        assert.ok(layout.contentLength <= layout.plot.right - layout.plot.left + 1e-6);
+    });
+
+    it("runs bars from the right edge in right-to-left layouts, comparison first", () => {
+        const bars: WaterfallBarInput[] = [
+            { category: "A", barType: "step", value: 10, comparison: 8 },
+            { category: "B", barType: "step", value: 5, comparison: 4 }
+        ];
+        const layout = computeWaterfallLayout(createInput(bars, { comparisonStyle: "clustered", rightToLeft: true }));
+        const [first, second] = layout.bars;
+
+        assert.equal(layout.rightToLeft, true);
+        assert.ok(Math.abs(first.slotPosition + layout.slotWidth - layout.plot.right) < 1e-6);
+        assert.ok(second.slotPosition < first.slotPosition);
+        assert.equal(first.position, first.slotPosition);
+        assert.ok(first.comparison.position >= first.position + layout.barWidth);
+    });
+
+    it("keeps horizontal bars top down in right-to-left layouts", () => {
+        const layout = computeWaterfallLayout(createInput(bridge, { orientation: "horizontal", rightToLeft: true }));
+
+        assert.equal(layout.rightToLeft, false);
+        assert.equal(layout.bars[0].position, layout.plot.top);
+    });
+
+    it("uses a manual range and clamps to it", () => {
+        const layout = computeWaterfallLayout(createInput(bridge, { rangeMin: 50, rangeMax: 120 }));
+        const scale = createValueScale(layout);
+
+        assert.deepEqual(layout.domain, [50, 120]);
+        assert.equal(layout.clamped, true);
+        assert.equal(scale(0), layout.plot.bottom);
+        assert.equal(scale(1000), layout.plot.top);
+    });
+
+    it("maps values to x when horizontal", () => {
+        const layout = computeWaterfallLayout(createInput(bridge, { orientation: "horizontal" }));
+        const scale = createValueScale(layout);
+
+        assert.equal(layout.bars[0].position, layout.plot.top);
+        assert.equal(scale(layout.domain[0]), layout.plot.left);
+        assert.equal(scale(layout.domain[1]), layout.plot.right);
+    });
+
+    it("handles empty input", () => {
+        const layout = computeWaterfallLayout(createInput([]));
+
+        assert.deepEqual(layout.bars, []);
+        assert.deepEqual(layout.domain, [0, 1]);
+    });
+});
+
+describe("resolveBarFill", () => {
+    it("colors steps by sign and lets the bar's own color win", () => {
+        assert.equal(resolveBarFill({ category: "A", barType: "step", value: -5 }, null, DEFAULT_SCENE_STYLE).color, DEFAULT_SCENE_STYLE.decreaseColor);
+        assert.equal(resolveBarFill({ category: "A", barType: "step", value: 5, color: "#123456" }, null, DEFAULT_SCENE_STYLE).color, "#123456");
+    });
+
+    it("flags bars over their target when a flag color is set", () => {
+        const style = { ...DEFAULT_SCENE_STYLE, overTargetColor: "#FF0000" };
+
+        assert.equal(resolveBarFill({ category: "A", barType: "step", value: 5 }, 2, style).color, "#FF0000");
+        assert.equal(resolveBarFill({ category: "A", barType: "step", value: 5 }, -2, style).color, DEFAULT_SCENE_STYLE.increaseColor);
+    });
+
+    it("tells subtotals and totals apart by pattern in high contrast", () => {
+        const style = { ...DEFAULT_SCENE_STYLE, highContrast: { foreground: "#FFFF00", background: "#000000" } };
+        const total = resolveBarFill({ category: "Total", barType: "total", value: 0 }, null, style);
+
+        assert.deepEqual(total, { color: "#000000", fillStyle: "stripes", patternId: "fill-stripes" });
+        assert.equal(resolveBarFill({ category: "A", barType: "step", value: 5 }, null, style).color, "#FFFF00");
+    });
+});
+
+describe("buildWaterfallScene", () => {
+    it("lays each bar type's fill style over its color and defines only the patterns used", () => {
+        const input = createInput(bridge);
+        const scene = buildWaterfallScene(input, computeWaterfallLayout(input), {
+            fills: { ...DEFAULT_SCENE_STYLE.fills, subtotal: "dots", total: "outline" },
+            subtotalColor: "#00AA00"
+        });
+
+        const subtotal = scene.bars[3].shapes[0];
+        const total = scene.bars[5].shapes[0];
+        assert.equal(subtotal.fill, "#00AA00");
+        assert.equal(subtotal.patternId, "fill-dots");
+        assert.equal(total.fill, "transparent");
+        assert.equal(total.stroke, DEFAULT_SCENE_STYLE.totalColor);
+        assert.deepEqual(scene.patterns.map(pattern => pattern.id), ["fill-dots"]);
+    });
+
+    it("outlines every shape with the configured border", () => {
+        const input = createInput([
+            { category: "A", barType: "step", value: 30, segments: [{ value: 10, color: "#111111" }, { value: 20, color: "#222222" }] },
+            { category: "B", barType: "step", value: 5 }
+        ]);
+        const scene = buildWaterfallScene(input, computeWaterfallLayout(input), { borderColor: "#444444", borderWidth: 2 });
+
+        const shapes = scene.bars.flatMap(bar => bar.shapes);
+        assert.equal(shapes.length, 3);
+        assert.ok(shapes.every(shape => shape.stroke === "#444444" && shape.strokeWidth === 2));
+        assert.deepEqual(shapes.map(shape => shape.segment), [0, 1, -1]);
+    });
+
+    it("labels the value axis and the bars with the given formatter", () => {
+        const input = createInput(bridge);
+        const layout = computeWaterfallLayout(input);
+        const scene = buildWaterfallScene(input, layout, { showValueAxis: true, showGridlines: true, formatValue: value => `$${value}` });
+
+        const ticks = createValueScale(layout).ticks(layout.tickCount);
+        assert.deepEqual(scene.axisLabels.map(label => label.text), ticks.map(tick => `$${tick}`));
+        assert.equal(scene.gridlines.length, ticks.length);
+        assert.equal(scene.valueLabels[1].text, "$40");
+        assert.equal(scene.valueLabels[5].text, "$80");
+    });
+
+    it("separates zones and titles each one", () => {
+        const input = createInput([
+            { category: "A", barType: "step", value: 10, zoneIndex: 0, zone: "2023" },
+            { category: "B", barType: "step", value: 5, zoneIndex: 0, zone: "2023" },
+            { category: "C", barType: "step", value: 8, zoneIndex: 1, zone: "2024" }
+        ]);
+        const scene = buildWaterfallScene(input, computeWaterfallLayout(input));
+
+        assert.equal(scene.separators.length, 1);
+        assert.deepEqual(scene.zoneTitles.map(title => title.text), ["2023", "2024"]);
+    });
+
+    it("hides labels whose anchor falls outside a manual range", () => {
+        const input = createInput(bridge, { rangeMin: 0, rangeMax: 120 });
+        const scene = buildWaterfallScene(input, computeWaterfallLayout(input));
+
+        assert.equal(scene.valueLabels[1].hidden, true);
+        assert.equal(scene.valueLabels[0].hidden, false);
+    });
+});
+
+describe("renderWaterfallSvg", () => {
+    it("draws one rect per bar and one per stacked segment", () => {
+        const input = createInput([
+            { category: "A", barType: "step", value: 30, segments: [{ value: 10, color: "#111111" }, { value: 20, color: "#222222" }] },
+            { category: "B", barType: "step", value: -10 },
+            { category: "Total", barType: "total", value: 0 }
+        ]);
+        const document = parseSvg(renderWaterfallSvg(input, computeWaterfallLayout(input)));
+
+        assert.equal(document.querySelectorAll("g.bar").length, 3);
+        assert.equal(document.querySelectorAll("g.bar rect").length, 4);
+        assert.equal(document.querySelector("g.bar rect").getAttribute("fill"), "#111111");
+        assert.equal(document.querySelector("g.bar-type-total rect").getAttribute("fill"), "#34495E");
+    });
+
+    it("draws a target marker only for bars with a target", () => {
+        const input = createInput([
+            { category: "A", barType: "step", value: 10, target: 8 },
+            { category: "B", barType: "step", value: 5 }
+        ]);
+        const document = parseSvg(renderWaterfallSvg(input, computeWaterfallLayout(input)));
+
+        assert.equal(document.querySelectorAll("g.targets line").length, 1);
+    });
+
+    it("connects waterfall bars but not plain bars", () => {
+        const input = createInput([
+            { category: "A", barType: "step", value: 10 },
+            { category: "B", barType: "step", value: 5 },
+            { category: "Plan", barType: "bar", value: 12 }
+        ]);
+        const document = parseSvg(renderWaterfallSvg(input, computeWaterfallLayout(input)));
+
+        assert.equal(document.querySelectorAll("g.connectors line").length, 1);
+    });
+
+    it("labels bars with formatted values and escaped categories", () => {
+        const input = createInput([
+            { category: "R&D <core>", barType: "step", value: 1234 },
+            { category: "Total", barType: "total", value: 0 }
+        ]);
+        const svg = renderWaterfallSvg(input, computeWaterfallLayout(input), { formatValue: value => `${value / 1000}K` });
+        const document = parseSvg(svg);
+
+        const values = Array.from(document.querySelectorAll("g.value-labels text")).map(text => text.textContent);
+        const categories = Array.from(document.querySelectorAll("g.category-labels text")).map(text => text.textContent);
+        assert.deepEqual(values, ["1.234K", "1.234K"]);
+        assert.deepEqual(categories, ["R&D <core>", "Total"]);
+    });
+
+    it("draws the scene's pattern overlays and value axis", () => {
+        const input = createInput(bridge);
+        const svg = renderWaterfallSvg(input, computeWaterfallLayout(input), {
+            fills: { ...DEFAULT_SCENE_STYLE.fills, subtotal: "crosshatch" },
+            showValueAxis: true,
+            formatValue: value => `${value}K`
+        });
+        const document = parseSvg(svg);
+
+        assert.equal(document.querySelectorAll("defs pattern#fill-crosshatch line").length, 2);
+        assert.equal(document.querySelector("g.bar-type-subtotal rect:last-child").getAttribute("fill"), "url(#fill-crosshatch)");
+        assert.ok(Array.from(document.querySelectorAll("g.value-axis text")).every(text => text.textContent.endsWith("K")));
+    });
+
+    it("renders an empty document for empty input", () => {
+        const input = createInput([]);
+        const document = parseSvg(renderWaterfallSvg(input, computeWaterfallLayout(input)));
+
+        assert.equal(document.documentElement.getAttribute("width"), "600");
+        assert.equal(document.querySelectorAll("rect").length, 0);
+        assert.equal(document.querySelectorAll("line").length, 0);
+    });
+
+    it("escapes XML special characters", () => {
+        assert.equal(escapeXml(`<a href="x">'&'</a>`), "&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;");
+    });
+});